@@ -1,36 +1,163 @@
-import { useState } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
+import type { SetStateAction } from 'react';
 import HeaderBar from "./components/HeaderBar";
 import SpreadsheetTable from "./components/SpreadsheetTable";
+import type { SpreadsheetTableHandle } from "./components/SpreadsheetTable";
 import FooterTabs from "./components/FooterTabs";
+import { mockSpreadsheetData } from './data/mockData';
+import { loadWorkbook, createDebouncedSaver } from './utils/storage';
+import type { PersistedViewState, SavedView, WorkbookSheet } from './utils/storage';
+import { createSheet } from './utils/sheets';
+import { mergeImportedRows } from './utils/rows';
+import type { ImportMode } from './utils/rows';
+import type { WorkbookContents } from './utils/workbookJson';
+import type { FilterGroup } from './utils/filters';
+import { getNewColumnWidth } from './utils/columns';
+import type { BuiltInColumnId, BuiltInColumnState } from './utils/columns';
+import type { SpreadsheetRow, CellRef, CustomColumn } from './types';
 
-export type SortField = 'submitted' | 'status' | 'submitter' | 'priority' | 'dueDate' | 'estValue';
-export type FilterField = 'status' | 'priority' | 'submitter' | 'assigned' | 'submitted' | 'dueDate' | 'estValue';
+// Any column can be sorted and filtered on; custom columns by their field key, hence the string fallback
+export type ColumnField = BuiltInColumnId | (string & {});
+export type SortField = ColumnField;
+// One level of a multi-level sort; earlier keys take precedence over later ones
+export interface SortKey {
+  field: SortField;
+  order: 'asc' | 'desc';
+}
+export type FilterField = ColumnField;
 export type CellViewMode = 'compact' | 'normal' | 'expanded';
+export type SearchDirection = 'next' | 'previous';
+
+const resolveAction = <T,>(action: SetStateAction<T>, current: T): T =>
+  typeof action === 'function' ? (action as (previous: T) => T)(current) : action;
 
 export default function App() {
-  const [hiddenFields, setHiddenFields] = useState<string[]>([]);
-  const [sortField, setSortField] = useState<SortField | null>(null);
-  const [sortOrder, setSortOrder] = useState<'asc' | 'desc' | null>(null);
-  const [filterField, setFilterField] = useState<FilterField | null>(null);
-  const [filterValue, setFilterValue] = useState<string>('');
+  const [sheets, setSheets] = useState<WorkbookSheet[]>(() => [createSheet('Sheet 1', mockSpreadsheetData)]);
+  const [activeSheetId, setActiveSheetId] = useState(sheets[0].id);
+  const [isHydrated, setIsHydrated] = useState(false);
+  const [selection, setSelection] = useState<CellRef[]>([]);
   const [searchTerm, setSearchTerm] = useState<string>('');
-  const [cellViewMode, setCellViewMode] = useState<CellViewMode>('normal');
+  const [matchingRowsOnly, setMatchingRowsOnly] = useState(false);
+  const tableRef = useRef<SpreadsheetTableHandle>(null);
+
+  // The table shows the active sheet through the active tab of its views
+  const activeSheet = sheets.find(sheet => sheet.id === activeSheetId) ?? sheets[0];
+  const { rows: data, customColumns, builtInColumns, columnWidths, views } = activeSheet;
+  const activeView = views.find(view => view.id === activeSheet.activeViewId) ?? views[0];
+  const { hiddenFields, sortKeys, filter, columnOrder, cellViewMode, frozenRows, frozenColumns } = activeView;
+
+  // Returning the same sheet leaves the state untouched, so no-op updates don't re-render
+  const updateActiveSheet = useCallback((update: (sheet: WorkbookSheet) => WorkbookSheet) => {
+    setSheets(current => {
+      const index = current.findIndex(sheet => sheet.id === activeSheet.id);
+      const updated = update(current[index]);
+      return updated === current[index] ? current : current.map((sheet, i) => (i === index ? updated : sheet));
+    });
+  }, [activeSheet.id]);
+
+  // State setters for the table, scoped to the active sheet
+  const setData = useCallback((action: SetStateAction<SpreadsheetRow[]>) => {
+    updateActiveSheet(sheet => {
+      const rows = resolveAction(action, sheet.rows);
+      return rows === sheet.rows ? sheet : { ...sheet, rows };
+    });
+  }, [updateActiveSheet]);
+
+  const setCustomColumns = useCallback((action: SetStateAction<CustomColumn[]>) => {
+    updateActiveSheet(sheet => {
+      const nextColumns = resolveAction(action, sheet.customColumns);
+      return nextColumns === sheet.customColumns ? sheet : { ...sheet, customColumns: nextColumns };
+    });
+  }, [updateActiveSheet]);
+
+  const setBuiltInColumns = useCallback((action: SetStateAction<BuiltInColumnState[]>) => {
+    updateActiveSheet(sheet => {
+      const nextColumns = resolveAction(action, sheet.builtInColumns);
+      return nextColumns === sheet.builtInColumns ? sheet : { ...sheet, builtInColumns: nextColumns };
+    });
+  }, [updateActiveSheet]);
+
+  const setColumnWidths = useCallback((action: SetStateAction<number[]>) => {
+    updateActiveSheet(sheet => {
+      const widths = resolveAction(action, sheet.columnWidths);
+      return widths === sheet.columnWidths ? sheet : { ...sheet, columnWidths: widths };
+    });
+  }, [updateActiveSheet]);
+
+  const setViews = useCallback((action: SetStateAction<SavedView[]>) => {
+    updateActiveSheet(sheet => {
+      const nextViews = resolveAction(action, sheet.views);
+      return nextViews === sheet.views ? sheet : { ...sheet, views: nextViews };
+    });
+  }, [updateActiveSheet]);
+
+  // Changing the view settings updates the active tab
+  const updateActiveView = (changes: Partial<PersistedViewState>) => {
+    updateActiveSheet(sheet => ({
+      ...sheet,
+      views: sheet.views.map(view => (view.id === activeView.id ? { ...view, ...changes } : view)),
+    }));
+  };
+
+  const saverRef = useRef(createDebouncedSaver());
+
+  // Restore the last saved workbook before showing the grid
+  useEffect(() => {
+    let cancelled = false;
+
+    loadWorkbook()
+      .then(workbook => {
+        if (cancelled || !workbook) return;
+        setSheets(workbook.sheets);
+        setActiveSheetId(workbook.activeSheetId);
+        console.log('Workbook restored from', workbook.savedAt);
+      })
+      .catch(error => {
+        console.warn('Could not restore workbook, using sample data:', error);
+      })
+      .finally(() => {
+        if (!cancelled) setIsHydrated(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Persist every change once hydration has finished
+  useEffect(() => {
+    if (!isHydrated) return;
+    saverRef.current.schedule({ sheets, activeSheetId });
+  }, [isHydrated, sheets, activeSheetId]);
+
+  // Write pending changes immediately when the page is hidden or closed
+  useEffect(() => {
+    const saver = saverRef.current;
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') saver.flush();
+    };
+
+    window.addEventListener('beforeunload', saver.flush);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      window.removeEventListener('beforeunload', saver.flush);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, []);
 
   const handleHideFields = (fields: string[]) => {
-    setHiddenFields(fields);
+    updateActiveView({ hiddenFields: fields });
     console.log('Fields hidden:', fields);
   };
 
-  const handleSort = (field: SortField | null, order: 'asc' | 'desc' | null) => {
-    setSortField(field);
-    setSortOrder(order);
-    console.log('Sort changed:', { field, order });
+  const handleSort = (keys: SortKey[]) => {
+    updateActiveView({ sortKeys: keys });
+    console.log('Sort changed:', keys);
   };
 
-  const handleFilter = (field: FilterField | null, value: string) => {
-    setFilterField(field);
-    setFilterValue(value);
-    console.log('Filter changed:', { field, value });
+  const handleFilter = (nextFilter: FilterGroup) => {
+    updateActiveView({ filter: nextFilter });
+    console.log('Filter changed:', nextFilter);
   };
 
   const handleSearch = (term: string) => {
@@ -38,11 +165,77 @@ export default function App() {
     console.log('Search term changed:', term);
   };
 
+  const handleMatchingRowsOnly = (enabled: boolean) => {
+    setMatchingRowsOnly(enabled);
+    console.log('Show only matching rows:', enabled);
+  };
+
   const handleCellView = (mode: CellViewMode) => {
-    setCellViewMode(mode);
+    updateActiveView({ cellViewMode: mode });
     console.log('Cell view mode changed:', mode);
   };
 
+  const handleColumnOrder = (order: string[]) => {
+    updateActiveView({ columnOrder: order });
+    console.log('Column order changed:', order);
+  };
+
+  const handleFreeze = (frozen: Partial<Pick<PersistedViewState, 'frozenRows' | 'frozenColumns'>>) => {
+    updateActiveView(frozen);
+    console.log('Frozen panes changed:', frozen);
+  };
+
+  const handleViewsChange = (nextViews: SavedView[], nextActiveViewId: string) => {
+    updateActiveSheet(sheet => ({ ...sheet, views: nextViews, activeViewId: nextActiveViewId }));
+  };
+
+  const handleSheetsChange = (nextSheets: WorkbookSheet[], nextActiveSheetId: string) => {
+    setSheets(nextSheets);
+    setActiveSheetId(nextActiveSheetId);
+  };
+
+  const handleImportRows = (records: Partial<SpreadsheetRow>[], newColumns: CustomColumn[], mode: ImportMode) => {
+    const merged = mergeImportedRows(data, customColumns, records, newColumns, mode);
+    // Existing columns keep their widths and the added ones, which come last, get one to fit their
+    // name. The import goes through the table's history so undo takes it back instead of
+    // replaying older edits onto it
+    const addedColumns = merged.customColumns.slice(customColumns.length);
+    tableRef.current?.commitChange(`Import ${records.length} rows`, {
+      rows: merged.rows,
+      customColumns: addedColumns.length > 0 ? merged.customColumns : undefined,
+      columnWidths: addedColumns.length > 0
+        ? [...columnWidths, ...addedColumns.map(col => getNewColumnWidth(col.name))]
+        : undefined,
+    });
+    console.log(`Imported ${records.length} rows (${mode})`);
+  };
+
+  const handleImportWorkbook = (workbook: WorkbookContents, mode: ImportMode) => {
+    if (mode === 'append') {
+      // Imported rows are renumbered after the existing ones
+      handleImportRows(workbook.rows, workbook.customColumns, 'append');
+      return;
+    }
+
+    // The imported workbook replaces the active sheet, and its view settings those of the active tab
+    tableRef.current?.commitChange('Import workbook', {
+      rows: workbook.rows,
+      customColumns: workbook.customColumns,
+      builtInColumns: workbook.builtInColumns,
+      columnWidths: workbook.columnWidths,
+      views: views.map(view => (view.id === activeView.id ? { ...view, ...workbook.view } : view)),
+    });
+    console.log(`Workbook imported with ${workbook.rows.length} rows`);
+  };
+
+  if (!isHydrated) {
+    return (
+      <div className="flex items-center justify-center h-screen bg-gray-50 text-sm text-gray-500">
+        Loading workbook...
+      </div>
+    );
+  }
+
   return (
     <div className="flex flex-col h-screen bg-gray-50 min-w-0">
       <HeaderBar 
@@ -50,27 +243,67 @@ export default function App() {
         onSort={handleSort}
         onFilter={handleFilter}
         onSearch={handleSearch}
+        onSearchStep={(direction) => tableRef.current?.stepSearch(direction)}
+        onMatchingRowsOnly={handleMatchingRowsOnly}
         onCellView={handleCellView}
+        onColumnOrder={handleColumnOrder}
+        onImportRows={handleImportRows}
+        onImportWorkbook={handleImportWorkbook}
+        onSheetsChange={handleSheetsChange}
+        sheets={sheets}
+        activeSheetId={activeSheet.id}
+        data={data}
+        customColumns={customColumns}
+        builtInColumns={builtInColumns}
+        columnWidths={columnWidths}
+        selection={selection}
         hiddenFields={hiddenFields}
-        sortField={sortField}
-        sortOrder={sortOrder}
-        filterField={filterField}
-        filterValue={filterValue}
+        sortKeys={sortKeys}
+        filter={filter}
+        columnOrder={columnOrder}
         searchTerm={searchTerm}
+        matchingRowsOnly={matchingRowsOnly}
         cellViewMode={cellViewMode}
+        frozenRows={frozenRows}
+        frozenColumns={frozenColumns}
       />
       <div className="flex-1 overflow-hidden min-h-0">
+        {/* Each sheet gets a fresh table, with its own selection and undo history */}
         <SpreadsheetTable 
+          key={activeSheet.id}
+          ref={tableRef}
+          data={data}
+          setData={setData}
+          customColumns={customColumns}
+          setCustomColumns={setCustomColumns}
+          builtInColumns={builtInColumns}
+          setBuiltInColumns={setBuiltInColumns}
+          views={views}
+          setViews={setViews}
+          activeViewId={activeView.id}
+          columnWidths={columnWidths}
+          setColumnWidths={setColumnWidths}
           hiddenFields={hiddenFields}
-          sortField={sortField}
-          sortOrder={sortOrder}
-          filterField={filterField}
-          filterValue={filterValue}
+          sortKeys={sortKeys}
+          filter={filter}
+          columnOrder={columnOrder}
+          onColumnOrder={handleColumnOrder}
+          frozenRows={frozenRows}
+          frozenColumns={frozenColumns}
+          onFreeze={handleFreeze}
           searchTerm={searchTerm}
+          matchingRowsOnly={matchingRowsOnly}
           cellViewMode={cellViewMode}
+          onSelectionChange={setSelection}
         />
       </div>
-      <FooterTabs />
+      <FooterTabs
+        views={views}
+        activeViewId={activeView.id}
+        data={data}
+        customColumns={customColumns}
+        onChange={handleViewsChange}
+      />
     </div>
   );
 }
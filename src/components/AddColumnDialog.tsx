@@ -0,0 +1,126 @@
+import { useState } from 'react';
+import type { ColumnType, CustomColumn } from '../types';
+import { COLUMN_TYPES, CURRENCIES, hasOptions } from '../utils/columnTypes';
+
+interface AddColumnDialogProps {
+  // Names of the sheet's columns; a new column must not reuse one, whatever its case
+  existingNames: string[];
+  // The column is given its id when it is inserted
+  onAdd: (column: Omit<CustomColumn, 'id'>) => void;
+  onClose: () => void;
+}
+
+export default function AddColumnDialog({ existingNames, onAdd, onClose }: AddColumnDialogProps) {
+  const [name, setName] = useState('');
+  const [type, setType] = useState<ColumnType>('text');
+  const [optionsText, setOptionsText] = useState('');
+  const [currency, setCurrency] = useState(CURRENCIES[0]);
+
+  const trimmedName = name.trim();
+  const options = Array.from(new Set(optionsText.split('\n').map(option => option.trim()).filter(Boolean)));
+  const isDuplicate = existingNames.some(existing => existing.toLowerCase() === trimmedName.toLowerCase());
+  const canAdd = trimmedName !== '' && !isDuplicate && (!hasOptions(type) || options.length > 0);
+
+  const handleAdd = () => {
+    if (!canAdd) return;
+
+    const column: Omit<CustomColumn, 'id'> = { name: trimmedName, type };
+    if (hasOptions(type)) column.options = options;
+    if (type === 'currency') column.currency = currency;
+    onAdd(column);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/30 flex items-center justify-center z-[10001] p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-lg shadow-xl w-full max-w-sm flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={(e) => {
+          if (e.key === 'Escape') onClose();
+        }}
+      >
+        <div className="px-4 py-3 border-b border-gray-200">
+          <h2 className="text-sm font-semibold text-gray-900">Add column</h2>
+        </div>
+
+        <div className="p-4 space-y-3 text-xs text-gray-700">
+          <label className="block">
+            <span className="block font-medium mb-1">Name</span>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleAdd();
+              }}
+              className="w-full border border-gray-300 rounded px-2 py-1 focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+              autoFocus
+            />
+            {isDuplicate && (
+              <span className="block text-red-600 mt-1">A column with this name already exists</span>
+            )}
+          </label>
+
+          <label className="block">
+            <span className="block font-medium mb-1">Type</span>
+            <select
+              value={type}
+              onChange={(e) => setType(e.target.value as ColumnType)}
+              className="w-full border border-gray-300 rounded px-2 py-1 focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+            >
+              {COLUMN_TYPES.map(option => (
+                <option key={option.type} value={option.type}>{option.label}</option>
+              ))}
+            </select>
+            <span className="block text-gray-500 mt-1">
+              {COLUMN_TYPES.find(option => option.type === type)?.description}
+            </span>
+          </label>
+
+          {hasOptions(type) && (
+            <label className="block">
+              <span className="block font-medium mb-1">Options (one per line)</span>
+              <textarea
+                value={optionsText}
+                onChange={(e) => setOptionsText(e.target.value)}
+                rows={4}
+                className="w-full border border-gray-300 rounded px-2 py-1 focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </label>
+          )}
+
+          {type === 'currency' && (
+            <label className="block">
+              <span className="block font-medium mb-1">Currency</span>
+              <select
+                value={currency}
+                onChange={(e) => setCurrency(e.target.value)}
+                className="w-full border border-gray-300 rounded px-2 py-1 focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+              >
+                {CURRENCIES.map(code => (
+                  <option key={code} value={code}>{code}</option>
+                ))}
+              </select>
+            </label>
+          )}
+        </div>
+
+        <div className="px-4 py-3 border-t border-gray-200 flex items-center justify-end space-x-2">
+          <button
+            onClick={onClose}
+            className="text-xs text-gray-600 hover:text-gray-800 px-3 py-1 border border-gray-300 rounded hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleAdd}
+            disabled={!canAdd}
+            className="text-xs text-white bg-blue-600 hover:bg-blue-700 px-3 py-1 rounded disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Add column
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
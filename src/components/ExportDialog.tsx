@@ -0,0 +1,225 @@
+import { useMemo, useState } from 'react';
+import type { SpreadsheetRow, CellRef, CustomColumn } from '../types';
+import { filterAndSortRows } from '../utils/processRows';
+import { evaluateFormulaCells } from '../utils/formulaEngine';
+import { getColumns } from '../utils/columns';
+import type { BuiltInColumnState } from '../utils/columns';
+import type { RowProcessingOptions } from '../utils/processRows';
+import { getExportColumns, buildExportTable, toCsvRows, toXlsxSheet } from '../utils/exportData';
+import type { ExportScope } from '../utils/exportData';
+import { toCsv } from '../utils/csv';
+import { writeXlsx } from '../utils/xlsx';
+import { serializeWorkbook } from '../utils/workbookJson';
+import type { WorkbookSheet } from '../utils/storage';
+import type { CellViewMode } from '../App';
+import { downloadFile } from '../utils/download';
+
+interface ExportDialogProps {
+  // Excel exports give each sheet, or each view of the active sheet, a worksheet of its own
+  sheets: WorkbookSheet[];
+  activeSheetId: string;
+  data: SpreadsheetRow[];
+  customColumns: CustomColumn[];
+  builtInColumns: BuiltInColumnState[];
+  columnWidths: number[];
+  hiddenFields: string[];
+  columnOrder: string[];
+  cellViewMode: CellViewMode;
+  frozenRows: number;
+  frozenColumns: number;
+  processing: RowProcessingOptions;
+  selection: CellRef[];
+  onClose: () => void;
+}
+
+export default function ExportDialog({
+  sheets,
+  activeSheetId,
+  data,
+  customColumns,
+  builtInColumns,
+  columnWidths,
+  hiddenFields,
+  columnOrder,
+  cellViewMode,
+  frozenRows,
+  frozenColumns,
+  processing,
+  selection,
+  onClose
+}: ExportDialogProps) {
+  const sheetColumns = useMemo(() => getColumns(customColumns, builtInColumns), [customColumns, builtInColumns]);
+
+  // CSV and Excel get formula results; JSON keeps the formulas themselves
+  const evaluatedData = useMemo(
+    () => evaluateFormulaCells(data, sheetColumns.map(column => column.id)),
+    [data, sheetColumns]
+  );
+  const processedData = useMemo(
+    () => filterAndSortRows(evaluatedData, processing, customColumns),
+    [evaluatedData, processing, customColumns]
+  );
+  const [scope, setScope] = useState<ExportScope>(
+    selection.length > 1 ? 'selection' : processedData.length !== data.length ? 'view' : 'all'
+  );
+
+  const [format, setFormat] = useState<'csv' | 'xlsx' | 'json'>('csv');
+
+  const columns = useMemo(
+    () => getExportColumns(sheetColumns, hiddenFields, columnOrder),
+    [sheetColumns, hiddenFields, columnOrder]
+  );
+
+  const activeSheet = sheets.find(sheet => sheet.id === activeSheetId);
+  const views = activeSheet?.views ?? [];
+  const activeViewName = views.find(view => view.id === activeSheet?.activeViewId)?.name ?? 'Spreadsheet';
+
+  const scopeOptions: { key: ExportScope; label: string; description: string; disabled?: boolean }[] = [
+    format === 'xlsx'
+      ? { key: 'all', label: 'All sheets', description: `${sheets.length} sheet${sheets.length === 1 ? '' : 's'}, one worksheet each` }
+      : { key: 'all', label: 'All data', description: `${data.length} rows` },
+    format === 'xlsx'
+      ? { key: 'view', label: 'Views of this sheet', description: `${views.length} tab${views.length === 1 ? '' : 's'}, one worksheet each with its filter and sort` }
+      : { key: 'view', label: 'Current view', description: `${processedData.length} rows after filter and sort` },
+    {
+      key: 'selection',
+      label: 'Selected cells',
+      description: selection.length > 0 ? `${selection.length} cells` : 'No cells selected',
+      disabled: selection.length === 0,
+    },
+  ];
+
+  // Every row of a sheet, in the columns its active view shows
+  const buildSheetTable = (sheet: WorkbookSheet) => {
+    if (sheet.id === activeSheetId) return buildExportTable(evaluatedData, columns);
+    const view = sheet.views.find(candidate => candidate.id === sheet.activeViewId) ?? sheet.views[0];
+    const sheetFields = getColumns(sheet.customColumns, sheet.builtInColumns);
+    return buildExportTable(
+      evaluateFormulaCells(sheet.rows, sheetFields.map(column => column.id)),
+      getExportColumns(sheetFields, view?.hiddenFields ?? [], view?.columnOrder ?? [])
+    );
+  };
+
+  const handleExport = () => {
+    // JSON captures the whole sheet so it can be imported again losslessly
+    if (format === 'json') {
+      downloadFile(
+        serializeWorkbook({
+          rows: data,
+          customColumns,
+          builtInColumns,
+          columnWidths,
+          view: { ...processing, hiddenFields, columnOrder, cellViewMode, frozenRows, frozenColumns },
+        }),
+        'spreadsheet-workbook.json',
+        'application/json'
+      );
+      console.log(`Exported workbook with ${data.length} rows as json`);
+      onClose();
+      return;
+    }
+
+    if (format === 'xlsx') {
+      const worksheets = scope === 'all'
+        ? sheets.map(sheet => toXlsxSheet(sheet.name, buildSheetTable(sheet)))
+        : scope === 'view'
+          ? views.map(view => toXlsxSheet(view.name, buildExportTable(
+              filterAndSortRows(evaluatedData, view, customColumns),
+              getExportColumns(sheetColumns, view.hiddenFields, view.columnOrder)
+            )))
+          : [toXlsxSheet(activeViewName, buildExportTable(processedData, columns, selection))];
+      downloadFile(
+        writeXlsx(worksheets),
+        'spreadsheet-export.xlsx',
+        'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+      );
+      console.log(`Exported ${worksheets.length} worksheet${worksheets.length === 1 ? '' : 's'} as xlsx (${scope})`);
+      onClose();
+      return;
+    }
+
+    const table = scope === 'all'
+      ? buildExportTable(evaluatedData, columns)
+      : scope === 'view'
+        ? buildExportTable(processedData, columns)
+        : buildExportTable(processedData, columns, selection);
+
+    // Prefix a BOM so Excel detects UTF-8
+    downloadFile(`\ufeff${toCsv(toCsvRows(table))}`, 'spreadsheet-export.csv', 'text/csv;charset=utf-8');
+    console.log(`Exported ${table.rows.length} rows as csv (${scope})`);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/30 flex items-center justify-center z-[10001] p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-lg shadow-xl w-full max-w-sm flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-4 py-3 border-b border-gray-200">
+          <h2 className="text-sm font-semibold text-gray-900">Export</h2>
+          <p className="text-xs text-gray-500">
+            {columns.length} visible columns{hiddenFields.length > 0 ? ` • ${hiddenFields.length} hidden` : ''}
+          </p>
+        </div>
+
+        <div className="p-4 space-y-2">
+          <div className="flex items-center space-x-4 text-xs text-gray-700 pb-1">
+            <span className="font-medium">Format</span>
+            <label className="flex items-center space-x-1">
+              <input type="radio" checked={format === 'csv'} onChange={() => setFormat('csv')} />
+              <span>CSV</span>
+            </label>
+            <label className="flex items-center space-x-1">
+              <input type="radio" checked={format === 'xlsx'} onChange={() => setFormat('xlsx')} />
+              <span>Excel (.xlsx)</span>
+            </label>
+            <label className="flex items-center space-x-1">
+              <input type="radio" checked={format === 'json'} onChange={() => setFormat('json')} />
+              <span>JSON</span>
+            </label>
+          </div>
+          {format === 'json' ? (
+            <p className="text-xs text-gray-500 p-2 rounded border border-gray-200 bg-gray-50">
+              Exports the current sheet: all {data.length} rows, custom columns, column widths and view settings.
+            </p>
+          ) : scopeOptions.map(option => (
+            <label
+              key={option.key}
+              className={`flex items-start space-x-2 p-2 rounded border text-xs ${
+                scope === option.key ? 'border-blue-300 bg-blue-50' : 'border-gray-200'
+              } ${option.disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer hover:bg-gray-50'}`}
+            >
+              <input
+                type="radio"
+                checked={scope === option.key}
+                disabled={option.disabled}
+                onChange={() => setScope(option.key)}
+                className="mt-0.5"
+              />
+              <div>
+                <div className="font-medium text-gray-800">{option.label}</div>
+                <div className="text-gray-500">{option.description}</div>
+              </div>
+            </label>
+          ))}
+        </div>
+
+        <div className="px-4 py-3 border-t border-gray-200 flex justify-end space-x-2">
+          <button
+            onClick={onClose}
+            className="text-xs text-gray-600 hover:text-gray-800 px-3 py-1 border border-gray-300 rounded hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleExport}
+            className="text-xs text-white bg-blue-600 hover:bg-blue-700 px-3 py-1 rounded"
+          >
+            Export
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,235 @@
+import type { FilterCondition, FilterFieldOption, FilterGroup, FilterNode, FilterOperator } from '../utils/filters';
+import { FILTER_OPERATORS, createCondition } from '../utils/filters';
+import { toDateInputValue, fromDateInputValue } from '../utils/columnTypes';
+
+interface FilterBuilderProps {
+  filter: FilterGroup;
+  fields: FilterFieldOption[];
+  onChange: (filter: FilterGroup) => void;
+}
+
+// Groups nest one level below the top so the builder stays readable in a dropdown
+const MAX_GROUP_DEPTH = 1;
+
+const inputClassName =
+  'text-xs border border-gray-300 rounded px-1.5 py-1 bg-white focus:ring-1 focus:ring-blue-500 focus:border-blue-500';
+
+interface ConditionEditorProps {
+  condition: FilterCondition;
+  fields: FilterFieldOption[];
+  onChange: (condition: FilterCondition) => void;
+  onRemove: () => void;
+}
+
+function ConditionEditor({ condition, fields, onChange, onRemove }: ConditionEditorProps) {
+  const field = fields.find(option => option.key === condition.field) ?? fields[0];
+  const operators = FILTER_OPERATORS[field.kind];
+
+  const changeField = (key: string) => {
+    const next = fields.find(option => option.key === key)!;
+    // Free-form operands still make sense for another field of the same kind; listed options do not
+    const keepOperands = next.kind === field.kind && !next.options;
+    onChange(keepOperands ? { ...condition, field: key } : createCondition(next));
+  };
+
+  const setValue = (index: number, value: string) => {
+    const values = Array.from({ length: Math.max(condition.values.length, index + 1) }, (_, i) => condition.values[i] ?? '');
+    values[index] = value;
+    onChange({ ...condition, values });
+  };
+
+  const toggleValue = (value: string) => {
+    const values = condition.values.includes(value)
+      ? condition.values.filter(existing => existing !== value)
+      : [...condition.values, value];
+    onChange({ ...condition, values });
+  };
+
+  const renderInput = (index: number) => {
+    const value = condition.values[index] ?? '';
+    if (field.kind === 'date') {
+      return (
+        <input
+          type="date"
+          value={toDateInputValue(value)}
+          onChange={(e) => setValue(index, fromDateInputValue(e.target.value))}
+          className={inputClassName}
+        />
+      );
+    }
+    if (field.options) {
+      return (
+        <select value={value} onChange={(e) => setValue(index, e.target.value)} className={`${inputClassName} min-w-0`}>
+          <option value="" disabled>Choose…</option>
+          {field.options.map(option => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+      );
+    }
+    return (
+      <input
+        type="text"
+        inputMode={field.kind === 'number' ? 'decimal' : undefined}
+        value={value}
+        onChange={(e) => setValue(index, e.target.value)}
+        placeholder={field.kind === 'number' ? 'Number' : 'Value'}
+        className={`${inputClassName} w-24`}
+      />
+    );
+  };
+
+  const renderOperands = () => {
+    switch (condition.operator) {
+      case 'isEmpty':
+        return null;
+      case 'between':
+        return (
+          <>
+            {renderInput(0)}
+            <span className="text-xs text-gray-500">and</span>
+            {renderInput(1)}
+          </>
+        );
+      case 'anyOf':
+        return (
+          <div className="flex flex-wrap gap-x-2 gap-y-1 w-full">
+            {field.options?.map(option => (
+              <label key={option} className="flex items-center space-x-1 text-xs text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={condition.values.includes(option)}
+                  onChange={() => toggleValue(option)}
+                />
+                <span>{option}</span>
+              </label>
+            ))}
+          </div>
+        );
+      default:
+        return renderInput(0);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      <select value={field.key} onChange={(e) => changeField(e.target.value)} className={`${inputClassName} max-w-[8rem]`}>
+        {fields.map(option => (
+          <option key={option.key} value={option.key}>{option.label}</option>
+        ))}
+      </select>
+      <select
+        value={condition.operator}
+        onChange={(e) => onChange({ ...condition, operator: e.target.value as FilterOperator })}
+        className={inputClassName}
+      >
+        {operators.map(option => (
+          <option key={option.operator} value={option.operator}>{option.label}</option>
+        ))}
+      </select>
+      {renderOperands()}
+      <button
+        onClick={onRemove}
+        className="px-1 py-1 text-xs text-gray-400 hover:text-red-600"
+        title="Remove condition"
+      >
+        ✕
+      </button>
+    </div>
+  );
+}
+
+interface GroupEditorProps {
+  group: FilterGroup;
+  fields: FilterFieldOption[];
+  depth: number;
+  onChange: (group: FilterGroup) => void;
+  onRemove?: () => void;
+}
+
+function GroupEditor({ group, fields, depth, onChange, onRemove }: GroupEditorProps) {
+  const updateChild = (index: number, child: FilterNode) => {
+    onChange({ ...group, children: group.children.map((existing, i) => (i === index ? child : existing)) });
+  };
+  const removeChild = (index: number) => {
+    onChange({ ...group, children: group.children.filter((_, i) => i !== index) });
+  };
+  const addChild = (child: FilterNode) => {
+    onChange({ ...group, children: [...group.children, child] });
+  };
+
+  return (
+    <div className={depth > 0 ? 'border border-gray-200 rounded p-2 bg-gray-50 space-y-2' : 'space-y-2'}>
+      {group.children.length === 0 && (
+        <div className="text-xs text-gray-500">{depth === 0 ? 'No filters applied' : 'Empty group'}</div>
+      )}
+      {group.children.map((child, index) => (
+        <div key={index} className="flex items-start space-x-1">
+          <div className="w-12 flex-shrink-0 pt-1 text-xs text-gray-500">
+            {index === 0 ? 'Where' : index === 1 ? (
+              <select
+                value={group.join}
+                onChange={(e) => onChange({ ...group, join: e.target.value as FilterGroup['join'] })}
+                className="text-xs border border-gray-300 rounded px-0.5 py-0.5 bg-white"
+              >
+                <option value="and">and</option>
+                <option value="or">or</option>
+              </select>
+            ) : group.join}
+          </div>
+          <div className="flex-1 min-w-0">
+            {child.type === 'group' ? (
+              <GroupEditor
+                group={child}
+                fields={fields}
+                depth={depth + 1}
+                onChange={(next) => updateChild(index, next)}
+                onRemove={() => removeChild(index)}
+              />
+            ) : (
+              <ConditionEditor
+                condition={child}
+                fields={fields}
+                onChange={(next) => updateChild(index, next)}
+                onRemove={() => removeChild(index)}
+              />
+            )}
+          </div>
+        </div>
+      ))}
+      <div className="flex items-center space-x-2">
+        <button
+          onClick={() => addChild(createCondition(fields[0]))}
+          className="text-xs text-blue-600 hover:text-blue-800 px-1 py-0.5 rounded hover:bg-blue-50"
+        >
+          + Add condition
+        </button>
+        {depth < MAX_GROUP_DEPTH && (
+          <button
+            onClick={() => addChild({
+              type: 'group',
+              join: group.join === 'and' ? 'or' : 'and',
+              children: [createCondition(fields[0])],
+            })}
+            className="text-xs text-blue-600 hover:text-blue-800 px-1 py-0.5 rounded hover:bg-blue-50"
+          >
+            + Add group
+          </button>
+        )}
+        {onRemove && (
+          <button
+            onClick={onRemove}
+            className="text-xs text-gray-500 hover:text-red-600 px-1 py-0.5 rounded hover:bg-red-50"
+          >
+            Remove group
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Nested AND/OR groups of typed conditions
+export default function FilterBuilder({ filter, fields, onChange }: FilterBuilderProps) {
+  return <GroupEditor group={filter} fields={fields} depth={0} onChange={onChange} />;
+}
@@ -0,0 +1,257 @@
+import { useMemo, useState } from 'react';
+import type { SpreadsheetRow, CustomColumn } from '../types';
+import { createFindPattern, findMatches, planReplacements } from '../utils/findReplace';
+import type { FindMatch, FindScope, Replacement } from '../utils/findReplace';
+
+interface FindReplaceDialogProps {
+  // Rows and fields in view order
+  rows: SpreadsheetRow[];
+  fields: string[];
+  headers: string[];
+  customColumns: CustomColumn[];
+  // Cells selected when the dialog opened, and the active cell's field
+  selection: FindMatch[];
+  activeField?: string;
+  initialQuery: string;
+  onReveal: (match: FindMatch) => void;
+  onReplace: (replacements: Replacement[]) => void;
+  onClose: () => void;
+}
+
+export default function FindReplaceDialog({
+  rows,
+  fields,
+  headers,
+  customColumns,
+  selection,
+  activeField,
+  initialQuery,
+  onReveal,
+  onReplace,
+  onClose
+}: FindReplaceDialogProps) {
+  const [query, setQuery] = useState(initialQuery);
+  const [replacement, setReplacement] = useState('');
+  const [matchCase, setMatchCase] = useState(false);
+  const [wholeCell, setWholeCell] = useState(false);
+  const [useRegex, setUseRegex] = useState(false);
+  // Revealing a match moves the selection, so the selection scope keeps the cells from when the dialog opened
+  const [selectedCells] = useState(selection);
+  const [scope, setScope] = useState<FindScope>(selection.length > 1 ? 'selection' : 'sheet');
+  const [column, setColumn] = useState(activeField && fields.includes(activeField) ? activeField : fields[0]);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [message, setMessage] = useState('');
+
+  const { pattern, error } = useMemo(
+    () => createFindPattern({ query, matchCase, wholeCell, useRegex }),
+    [query, matchCase, wholeCell, useRegex]
+  );
+
+  const cells = useMemo((): FindMatch[] => {
+    if (scope === 'selection') return selectedCells;
+    if (scope === 'column') return rows.map(row => ({ rowId: row.id, field: column }));
+    return rows.flatMap(row => fields.map(field => ({ rowId: row.id, field })));
+  }, [scope, selectedCells, rows, column, fields]);
+
+  const matches = useMemo(() => (pattern ? findMatches(rows, cells, pattern) : []), [rows, cells, pattern]);
+
+  // Preview of what Replace all would do
+  const plan = useMemo(
+    () => (pattern ? planReplacements(rows, matches, pattern, replacement, { useRegex }, customColumns) : null),
+    [rows, matches, pattern, replacement, useRegex, customColumns]
+  );
+
+  const current = matches.length > 0 ? currentIndex % matches.length : -1;
+  const headerByField = new Map(fields.map((field, index) => [field, headers[index]]));
+
+  const findNext = () => {
+    if (matches.length === 0) return;
+    const next = (current + 1) % matches.length;
+    setCurrentIndex(next);
+    setMessage('');
+    onReveal(matches[next]);
+  };
+
+  const replaceCurrent = () => {
+    if (!pattern || current === -1) return;
+    const match = matches[current];
+    const { replacements, issues } = planReplacements(rows, [match], pattern, replacement, { useRegex }, customColumns);
+    if (issues.length > 0) {
+      setMessage(`"${issues[0].after}" ${issues[0].message} for ${headerByField.get(match.field) ?? match.field}`);
+      return;
+    }
+
+    onReplace(replacements);
+    // The next match keeps its place in the list unless the replaced cell still matches
+    pattern.lastIndex = 0;
+    const stillMatches = replacements.length === 0 || pattern.test(replacements[0].after);
+    if (stillMatches) setCurrentIndex(current + 1);
+    setMessage(replacements.length > 0 ? 'Replaced 1 cell' : 'Nothing to change in this cell');
+    if (matches.length > 1) onReveal(matches[(current + 1) % matches.length]);
+  };
+
+  const replaceAll = () => {
+    if (!plan || plan.replacements.length === 0) return;
+    onReplace(plan.replacements);
+    setCurrentIndex(0);
+    setMessage(
+      `Replaced ${plan.replacements.length} cell${plan.replacements.length === 1 ? '' : 's'}` +
+      (plan.issues.length > 0 ? `; skipped ${plan.issues.length} that don't fit their column` : '')
+    );
+  };
+
+  const scopeOptions: { key: FindScope; label: string; disabled?: boolean }[] = [
+    { key: 'selection', label: `Selection (${selectedCells.length} cells)`, disabled: selectedCells.length === 0 },
+    { key: 'column', label: 'Column' },
+    { key: 'sheet', label: 'Sheet' },
+  ];
+
+  const inputClassName = 'w-full border border-gray-300 rounded px-2 py-1 focus:ring-1 focus:ring-blue-500 focus:border-blue-500';
+
+  return (
+    // No backdrop, so the grid stays visible as matches are revealed
+    <div
+      className="fixed top-20 right-4 z-[10001] bg-white rounded-lg shadow-xl border border-gray-200 w-80 flex flex-col"
+      onKeyDown={(e) => {
+        if (e.key === 'Escape') onClose();
+      }}
+    >
+      <div className="px-4 py-3 border-b border-gray-200 flex items-center justify-between">
+        <h2 className="text-sm font-semibold text-gray-900">Find and replace</h2>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-sm" title="Close (Esc)">
+          ✕
+        </button>
+      </div>
+
+      <div className="p-4 space-y-3 text-xs text-gray-700">
+        <label className="block">
+          <span className="block font-medium mb-1">Find</span>
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setCurrentIndex(0);
+              setMessage('');
+            }}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') findNext();
+            }}
+            className={inputClassName}
+            autoFocus
+          />
+          {error && <span className="block text-red-600 mt-1">{error}</span>}
+        </label>
+        <label className="block">
+          <span className="block font-medium mb-1">Replace with</span>
+          <input
+            type="text"
+            value={replacement}
+            onChange={(e) => {
+              setReplacement(e.target.value);
+              setMessage('');
+            }}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') replaceCurrent();
+            }}
+            className={inputClassName}
+            placeholder={useRegex ? 'Use $1, $2... for groups' : undefined}
+          />
+        </label>
+
+        <div className="flex flex-wrap gap-x-3 gap-y-1">
+          <label className="flex items-center space-x-1">
+            <input type="checkbox" checked={matchCase} onChange={(e) => setMatchCase(e.target.checked)} />
+            <span>Match case</span>
+          </label>
+          <label className="flex items-center space-x-1">
+            <input type="checkbox" checked={wholeCell} onChange={(e) => setWholeCell(e.target.checked)} />
+            <span>Whole cell</span>
+          </label>
+          <label className="flex items-center space-x-1">
+            <input type="checkbox" checked={useRegex} onChange={(e) => setUseRegex(e.target.checked)} />
+            <span>Regular expression</span>
+          </label>
+        </div>
+
+        <div className="space-y-1">
+          <span className="block font-medium">Search in</span>
+          {scopeOptions.map(option => (
+            <label
+              key={option.key}
+              className={`flex items-center space-x-2 ${option.disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}
+            >
+              <input
+                type="radio"
+                checked={scope === option.key}
+                disabled={option.disabled}
+                onChange={() => {
+                  setScope(option.key);
+                  setCurrentIndex(0);
+                }}
+              />
+              <span>{option.label}</span>
+              {option.key === 'column' && (
+                <select
+                  value={column}
+                  onChange={(e) => {
+                    setColumn(e.target.value);
+                    setScope('column');
+                    setCurrentIndex(0);
+                  }}
+                  className="border border-gray-300 rounded px-1 py-0.5"
+                >
+                  {fields.map((field, index) => (
+                    <option key={field} value={field}>{headers[index]}</option>
+                  ))}
+                </select>
+              )}
+            </label>
+          ))}
+        </div>
+
+        {/* Preview of Replace all */}
+        {plan && (
+          <div className="p-2 rounded border border-gray-200 bg-gray-50 space-y-1">
+            <div>
+              {matches.length === 0
+                ? 'No matches'
+                : `Match ${current + 1} of ${matches.length} • ${plan.replacements.length} cell${plan.replacements.length === 1 ? '' : 's'} will change`}
+            </div>
+            {plan.issues.length > 0 && (
+              <div className="text-amber-700">
+                {plan.issues.length} can't be replaced, e.g. "{plan.issues[0].after}" {plan.issues[0].message} for{' '}
+                {headerByField.get(plan.issues[0].field) ?? plan.issues[0].field}
+              </div>
+            )}
+          </div>
+        )}
+        {message && <div className="text-gray-600">{message}</div>}
+      </div>
+
+      <div className="px-4 py-3 border-t border-gray-200 flex justify-end space-x-2">
+        <button
+          onClick={findNext}
+          disabled={matches.length === 0}
+          className="text-xs text-gray-600 hover:text-gray-800 px-3 py-1 border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-40"
+        >
+          Find next
+        </button>
+        <button
+          onClick={replaceCurrent}
+          disabled={matches.length === 0}
+          className="text-xs text-gray-600 hover:text-gray-800 px-3 py-1 border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-40"
+        >
+          Replace
+        </button>
+        <button
+          onClick={replaceAll}
+          disabled={!plan || plan.replacements.length === 0}
+          className="text-xs text-white bg-blue-600 hover:bg-blue-700 px-3 py-1 rounded disabled:opacity-40"
+        >
+          Replace all
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,98 +1,141 @@
-import { useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { SpreadsheetRow, CustomColumn } from '../types';
+import type { SavedView } from '../utils/storage';
+import { createRowFilter } from '../utils/filters';
+import { getUniqueName } from '../utils/sheets';
 
-interface Tab {
-  id: string;
-  name: string;
-  count?: number;
+interface FooterTabsProps {
+  views: SavedView[];
+  activeViewId: string;
+  data: SpreadsheetRow[];
+  customColumns: CustomColumn[];
+  onChange: (views: SavedView[], activeViewId: string) => void;
 }
 
-export default function FooterTabs() {
-  const [tabs, setTabs] = useState<Tab[]>([
-    { id: 'all', name: 'All Orders', count: 127 },
-    { id: 'pending', name: 'Pending', count: 23 },
-    { id: 'reviewed', name: 'Reviewed', count: 45 },
-    { id: 'arrived', name: 'Arrived', count: 12 }
-  ]);
-  const [activeTabId, setActiveTabId] = useState('all');
-
-  const handleTabClick = (tabId: string, tabName: string) => {
-    setActiveTabId(tabId);
-    console.log(`Tab clicked: ${tabName} (${tabId})`);
-    
-    // Simulate filtering data based on tab
-    switch (tabId) {
-      case 'all':
-        alert('Showing all orders (127 items)');
-        break;
-      case 'pending':
-        alert('Filtering to show only pending orders (23 items)');
-        break;
-      case 'reviewed':
-        alert('Filtering to show only reviewed orders (45 items)');
-        break;
-      case 'arrived':
-        alert('Filtering to show only arrived orders (12 items)');
-        break;
-      default:
-        alert(`Showing ${tabName} orders`);
-        break;
-    }
+interface TabMenuProps {
+  view: SavedView;
+  x: number;
+  y: number;
+  canDelete: boolean;
+  onRename: () => void;
+  onDuplicate: () => void;
+  onDelete: () => void;
+  onClose: () => void;
+}
+
+function TabMenu({ view, x, y, canDelete, onRename, onDuplicate, onDelete, onClose }: TabMenuProps) {
+  const menuRef = useRef<HTMLDivElement>(null);
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        onClose();
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [onClose]);
+
+  const itemClassName = 'w-full text-left px-3 py-2 text-sm hover:bg-gray-50 transition-colors';
+
+  return (
+    <div
+      ref={menuRef}
+      className="fixed bg-white border border-gray-200 rounded-lg shadow-xl z-50 py-1 w-44"
+      // The footer sits at the bottom of the page, so the menu opens upwards
+      style={{ left: x, bottom: window.innerHeight - y }}
+    >
+      {confirmingDelete ? (
+        <div className="px-3 py-2 space-y-2">
+          <div className="text-xs text-gray-700">Delete view "{view.name}"?</div>
+          <div className="flex justify-end space-x-2">
+            <button
+              onClick={() => setConfirmingDelete(false)}
+              className="text-xs px-3 py-1 rounded border border-gray-300 text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={onDelete}
+              className="text-xs px-3 py-1 rounded bg-red-600 text-white hover:bg-red-700"
+            >
+              Delete
+            </button>
+          </div>
+        </div>
+      ) : (
+        <>
+          <button onClick={onRename} className={`${itemClassName} text-gray-700`}>
+            Rename
+          </button>
+          <button onClick={onDuplicate} className={`${itemClassName} text-gray-700`}>
+            Duplicate
+          </button>
+          <button
+            onClick={() => setConfirmingDelete(true)}
+            disabled={!canDelete}
+            className={`${itemClassName} text-red-600 hover:bg-red-50 disabled:opacity-40 disabled:hover:bg-transparent`}
+            title={canDelete ? undefined : 'The last view cannot be deleted'}
+          >
+            Delete
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
+
+// Saved views: each tab keeps its own filter, sort, hidden fields, column order and cell view
+export default function FooterTabs({ views, activeViewId, data, customColumns, onChange }: FooterTabsProps) {
+  const [menu, setMenu] = useState<{ viewId: string; x: number; y: number } | null>(null);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  // Live row counts after each view's filter
+  const counts = useMemo(
+    () => new Map(views.map(view => [
+      view.id,
+      view.filter.children.length > 0 ? data.filter(createRowFilter(view.filter, customColumns)).length : data.length,
+    ])),
+    [views, data, customColumns]
+  );
+
+  const activeView = views.find(view => view.id === activeViewId) ?? views[0];
+  const menuView = menu ? views.find(view => view.id === menu.viewId) : undefined;
+
+  const startRename = (view: SavedView) => {
+    setMenu(null);
+    setRenamingId(view.id);
+    setDraftName(view.name);
   };
 
-  const handleAddTab = () => {
-    console.log('Add new tab clicked');
-    const tabName = prompt('Enter new tab name:');
-    
-    if (tabName && tabName.trim()) {
-      const newTab: Tab = {
-        id: `tab-${Date.now()}`,
-        name: tabName.trim(),
-        count: 0
-      };
-      
-      setTabs([...tabs, newTab]);
-      setActiveTabId(newTab.id);
-      alert(`New tab "${tabName}" created successfully!`);
+  const finishRename = () => {
+    const name = draftName.trim();
+    if (renamingId && name) {
+      onChange(views.map(view => (view.id === renamingId ? { ...view, name } : view)), activeViewId);
+      console.log(`View renamed to "${name}"`);
     }
+    setRenamingId(null);
   };
 
-  const handleTabRightClick = (e: React.MouseEvent, tabId: string) => {
-    e.preventDefault();
-    
-    if (tabs.length <= 1) {
-      alert('Cannot delete the last tab');
-      return;
-    }
-    
-    const tabToDelete = tabs.find(tab => tab.id === tabId);
-    if (tabToDelete && confirm(`Delete tab "${tabToDelete.name}"?`)) {
-      const newTabs = tabs.filter(tab => tab.id !== tabId);
-      setTabs(newTabs);
-      
-      // If deleted tab was active, switch to first tab
-      if (activeTabId === tabId) {
-        setActiveTabId(newTabs[0].id);
-      }
-      
-      console.log(`Tab deleted: ${tabToDelete.name}`);
-      alert(`Tab "${tabToDelete.name}" deleted`);
-    }
+  // New tabs start from a copy of the given view's settings
+  const addView = (source: SavedView, name: string) => {
+    const view: SavedView = { ...source, id: `view-${Date.now()}`, name: getUniqueName(name, views.map(view => view.name)) };
+    onChange([...views, view], view.id);
+    console.log(`View "${view.name}" created`);
+    return view;
   };
 
-  const handleTabDoubleClick = (tabId: string) => {
-    const currentTab = tabs.find(tab => tab.id === tabId);
-    if (!currentTab) return;
-    
-    const newName = prompt('Rename tab:', currentTab.name);
-    if (newName && newName.trim() && newName !== currentTab.name) {
-      setTabs(tabs.map(tab => 
-        tab.id === tabId 
-          ? { ...tab, name: newName.trim() }
-          : tab
-      ));
-      console.log(`Tab renamed: ${currentTab.name} -> ${newName}`);
-      alert(`Tab renamed to "${newName}"`);
-    }
+  const deleteView = (viewId: string) => {
+    const index = views.findIndex(view => view.id === viewId);
+    const remaining = views.filter(view => view.id !== viewId);
+    // Deleting the active tab moves to its neighbour
+    const nextActiveId = viewId === activeViewId ? remaining[Math.max(0, index - 1)].id : activeViewId;
+    onChange(remaining, nextActiveId);
+    setMenu(null);
+    console.log(`View deleted: ${views[index].name}`);
   };
 
   return (
@@ -100,60 +143,83 @@ export default function FooterTabs() {
       <div className="flex items-center overflow-x-auto scrollbar-hide">
         {/* Tabs with horizontal scrolling */}
         <div className="flex items-center min-w-max">
-          {tabs.map((tab) => (
-            <button
-              key={tab.id}
-              onClick={() => handleTabClick(tab.id, tab.name)}
-              onContextMenu={(e) => handleTabRightClick(e, tab.id)}
-              onDoubleClick={() => handleTabDoubleClick(tab.id)}
-              className={`flex items-center space-x-2 px-3 sm:px-4 py-2 text-xs font-medium border-b-2 transition-all duration-200 whitespace-nowrap ${
-                activeTabId === tab.id
-                  ? "border-green-500 text-green-600 bg-green-50 shadow-sm"
-                  : "border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300 hover:bg-gray-50"
-              }`}
-              title={`${tab.name}${tab.count ? ` (${tab.count} items)` : ''}\nRight-click to delete, double-click to rename`}
-            >
-              <span className="truncate max-w-[120px] sm:max-w-none">{tab.name}</span>
-              {tab.count !== undefined && (
+          {views.map((view) => {
+            const isActive = view.id === activeView.id;
+            return renamingId === view.id ? (
+              <input
+                key={view.id}
+                autoFocus
+                value={draftName}
+                onChange={(e) => setDraftName(e.target.value)}
+                onFocus={(e) => e.target.select()}
+                onBlur={finishRename}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') finishRename();
+                  if (e.key === 'Escape') {
+                    // Clear the draft so the blur that follows keeps the old name
+                    setDraftName('');
+                    setRenamingId(null);
+                  }
+                }}
+                className="mx-1 px-2 py-1 text-xs border border-green-500 rounded outline-none w-32"
+              />
+            ) : (
+              <button
+                key={view.id}
+                onClick={() => onChange(views, view.id)}
+                onContextMenu={(e) => {
+                  e.preventDefault();
+                  setMenu({ viewId: view.id, x: e.clientX, y: e.clientY });
+                }}
+                onDoubleClick={() => startRename(view)}
+                className={`flex items-center space-x-2 px-3 sm:px-4 py-2 text-xs font-medium border-b-2 transition-all duration-200 whitespace-nowrap ${
+                  isActive
+                    ? "border-green-500 text-green-600 bg-green-50 shadow-sm"
+                    : "border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300 hover:bg-gray-50"
+                }`}
+                title={`${view.name} (${counts.get(view.id)} rows)\nRight-click for options, double-click to rename`}
+              >
+                <span className="truncate max-w-[120px] sm:max-w-none">{view.name}</span>
                 <span className={`px-1.5 py-0.5 rounded-full text-xs ${
-                  activeTabId === tab.id
+                  isActive
                     ? 'bg-green-100 text-green-700'
                     : 'bg-gray-100 text-gray-600'
                 }`}>
-                  {tab.count}
+                  {counts.get(view.id)}
                 </span>
-              )}
-            </button>
-          ))}
+              </button>
+            );
+          })}
         </div>
-        
+
         {/* Add tab button */}
-        <button 
-          onClick={handleAddTab}
+        <button
+          onClick={() => startRename(addView(activeView, 'View'))}
           className="flex items-center justify-center w-8 h-8 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded transition-colors ml-2 flex-shrink-0"
-          title="Add new tab"
+          title="Save the current view as a new tab"
         >
           <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
           </svg>
         </button>
-        
-        {/* Tab management options */}
-        <div className="flex items-center ml-auto pr-2 sm:pr-4 flex-shrink-0">
-          <button
-            onClick={() => {
-              const tabNames = tabs.map(tab => `${tab.name}${tab.count ? ` (${tab.count})` : ''}`).join('\n');
-              alert(`Current tabs:\n\n${tabNames}\n\nTip: Right-click tabs to delete, double-click to rename`);
-            }}
-            className="text-gray-400 hover:text-gray-600 text-xs px-2 py-1 rounded hover:bg-gray-100 transition-colors"
-            title="Tab management"
-          >
-            <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8.228 9c.549-1.165 2.03-2 3.772-2 2.21 0 4 1.343 4 3 0 1.4-1.278 2.575-3.006 2.907-.542.104-.994.54-.994 1.093m0 3h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
-            </svg>
-          </button>
-        </div>
       </div>
+
+      {menu && menuView && (
+        <TabMenu
+          key={menuView.id}
+          view={menuView}
+          x={menu.x}
+          y={menu.y}
+          canDelete={views.length > 1}
+          onRename={() => startRename(menuView)}
+          onDuplicate={() => {
+            addView(menuView, `${menuView.name} copy`);
+            setMenu(null);
+          }}
+          onDelete={() => deleteView(menuView.id)}
+          onClose={() => setMenu(null)}
+        />
+      )}
     </div>
   );
-}
\ No newline at end of file
+}
@@ -1,19 +1,74 @@
 import React, { useState } from "react";
-import type { SortField, FilterField, CellViewMode } from "../App";
+import type {
+  SortField,
+  SortKey,
+  CellViewMode,
+  SearchDirection,
+} from "../App";
+import type { SpreadsheetRow, CellRef, CustomColumn } from "../types";
+import type { ImportMode } from "../utils/rows";
+import { orderFields } from "../utils/rows";
+import { getColumns } from "../utils/columns";
+import type { BuiltInColumnState } from "../utils/columns";
+import ImportDialog from "./ImportDialog";
+import ExportDialog from "./ExportDialog";
+import type { ImportSource } from "../utils/importMapping";
+import { readXlsx } from "../utils/xlsx";
+import { parseWorkbookJson } from "../utils/workbookJson";
+import type {
+  WorkbookContents,
+  WorkbookJsonParseResult,
+} from "../utils/workbookJson";
+import JsonImportDialog from "./JsonImportDialog";
+import FilterBuilder from "./FilterBuilder";
+import {
+  EMPTY_FILTER,
+  countConditions,
+  getFilterFields,
+  pruneFilter,
+} from "../utils/filters";
+import type { FilterGroup } from "../utils/filters";
+import type { WorkbookSheet } from "../utils/storage";
+import { parseSearchQuery } from "../utils/searchQuery";
+import {
+  createSheet,
+  duplicateSheet,
+  getUniqueName,
+  moveItem,
+} from "../utils/sheets";
 
 interface HeaderBarProps {
   onHideFields: (fields: string[]) => void;
-  onSort: (field: SortField | null, order: "asc" | "desc" | null) => void;
-  onFilter: (field: FilterField | null, value: string) => void;
+  onSort: (keys: SortKey[]) => void;
+  onFilter: (filter: FilterGroup) => void;
   onSearch: (term: string) => void;
+  onSearchStep: (direction: SearchDirection) => void;
+  onMatchingRowsOnly: (enabled: boolean) => void;
   onCellView: (mode: CellViewMode) => void;
+  onColumnOrder: (order: string[]) => void;
+  onImportRows: (
+    records: Partial<SpreadsheetRow>[],
+    newColumns: CustomColumn[],
+    mode: ImportMode
+  ) => void;
+  onImportWorkbook: (workbook: WorkbookContents, mode: ImportMode) => void;
+  onSheetsChange: (sheets: WorkbookSheet[], activeSheetId: string) => void;
+  sheets: WorkbookSheet[];
+  activeSheetId: string;
+  data: SpreadsheetRow[];
+  customColumns: CustomColumn[];
+  builtInColumns: BuiltInColumnState[];
+  columnWidths: number[];
+  selection: CellRef[];
   hiddenFields: string[];
-  sortField: SortField | null;
-  sortOrder: "asc" | "desc" | null;
-  filterField: FilterField | null;
-  filterValue: string;
+  sortKeys: SortKey[];
+  filter: FilterGroup;
+  columnOrder: string[];
   searchTerm: string;
+  matchingRowsOnly: boolean;
   cellViewMode: CellViewMode;
+  frozenRows: number;
+  frozenColumns: number;
 }
 
 export default function HeaderBar({
@@ -21,30 +76,51 @@ export default function HeaderBar({
   onSort,
   onFilter,
   onSearch,
+  onSearchStep,
+  onMatchingRowsOnly,
   onCellView,
+  onColumnOrder,
+  onImportRows,
+  onImportWorkbook,
+  onSheetsChange,
+  sheets,
+  activeSheetId,
+  data,
+  customColumns,
+  builtInColumns,
+  columnWidths,
+  selection,
   hiddenFields,
-  sortField,
-  sortOrder,
-  filterField,
-  filterValue,
+  sortKeys,
+  filter,
+  columnOrder,
   searchTerm,
+  matchingRowsOnly,
   cellViewMode,
+  frozenRows,
+  frozenColumns,
 }: HeaderBarProps) {
   const [localSearchTerm, setLocalSearchTerm] = useState(searchTerm);
-  const [isSearching, setIsSearching] = useState(false);
   const [showHideFieldsDropdown, setShowHideFieldsDropdown] = useState(false);
   const [showSortDropdown, setShowSortDropdown] = useState(false);
   const [showFilterDropdown, setShowFilterDropdown] = useState(false);
   const [showCellViewDropdown, setShowCellViewDropdown] = useState(false);
   const [showNotifications, setShowNotifications] = useState(false);
   const [showSpreadsheetMenu, setShowSpreadsheetMenu] = useState(false);
+  const [showSheetList, setShowSheetList] = useState(false);
   const [showMobileToolbar, setShowMobileToolbar] = useState(false);
+  const [pendingImport, setPendingImport] = useState<{
+    fileName: string;
+    source: ImportSource;
+  } | null>(null);
+  const [pendingJsonImport, setPendingJsonImport] = useState<{
+    fileName: string;
+    result: WorkbookJsonParseResult;
+  } | null>(null);
+  const [showExportDialog, setShowExportDialog] = useState(false);
 
   // Local state for pending filter changes
-  const [pendingFilterField, setPendingFilterField] =
-    useState<FilterField | null>(filterField);
-  const [pendingFilterValue, setPendingFilterValue] =
-    useState<string>(filterValue);
+  const [pendingFilter, setPendingFilter] = useState<FilterGroup>(filter);
 
   // Mock notifications data
   const [notifications, setNotifications] = useState([
@@ -73,53 +149,26 @@ export default function HeaderBar({
 
   const unreadCount = notifications.filter((n) => n.unread).length;
 
-  // All available fields with their display names
-  const availableFields = [
-    { key: "jobRequest", label: "Job Request" },
-    { key: "submitted", label: "Submitted" },
-    { key: "status", label: "Status" },
-    { key: "submitter", label: "Submitter" },
-    { key: "url", label: "URL" },
-    { key: "assigned", label: "Assigned" },
-    { key: "priority", label: "Priority" },
-    { key: "dueDate", label: "Due Date" },
-    { key: "estValue", label: "Est. Value" },
-  ];
+  // The sheet's built-in and custom columns, which every dropdown lists
+  const columns = getColumns(customColumns, builtInColumns);
 
-  const sortOptions: { key: SortField | null; label: string }[] = [
-    { key: null, label: "None" },
-    { key: "submitted", label: "Submitted Date" },
-    { key: "status", label: "Status" },
-    { key: "submitter", label: "Submitter" },
-    { key: "priority", label: "Priority" },
-    { key: "dueDate", label: "Due Date" },
-    { key: "estValue", label: "Est. Value" },
-  ];
+  // Columns that can be hidden, with their display names
+  const availableFields = columns
+    .filter((column) => column.capabilities.hide)
+    .map((column) => ({ key: column.id, label: column.label }));
 
-  const filterOptions: {
-    key: FilterField;
-    label: string;
-    type: "select" | "text" | "date";
-    options?: string[];
-  }[] = [
-    {
-      key: "status",
-      label: "Status",
-      type: "select",
-      options: ["in-progress", "need to start", "complete", "blocked"],
-    },
-    {
-      key: "priority",
-      label: "Priority",
-      type: "select",
-      options: ["High", "Medium", "Low"],
-    },
-    { key: "submitter", label: "Submitter", type: "text" },
-    { key: "assigned", label: "Assigned", type: "text" },
-    { key: "submitted", label: "Submitted Date", type: "date" },
-    { key: "dueDate", label: "Due Date", type: "date" },
-    { key: "estValue", label: "Est. Value", type: "text" },
-  ];
+  // Fields in the view's column order, as listed in the Hide fields dropdown
+  const orderedFields = orderFields(
+    availableFields.map((field) => field.key),
+    columnOrder
+  ).map((key) => availableFields.find((field) => field.key === key)!);
+
+  const sortOptions: { key: SortField; label: string }[] = columns
+    .filter((column) => column.capabilities.sort)
+    .map((column) => ({ key: column.id, label: column.label }));
+
+  const filterFields = getFilterFields(customColumns, builtInColumns);
+  const activeFilterCount = countConditions(filter);
 
   const cellViewOptions: {
     key: CellViewMode;
@@ -146,47 +195,48 @@ export default function HeaderBar({
     onHideFields(newHiddenFields);
   };
 
-  const handleSortSelect = (field: SortField | null) => {
-    if (field === null) {
-      onSort(null, null);
-    } else if (sortField === field) {
-      // Cycle through: asc -> desc -> none
-      if (sortOrder === "asc") {
-        onSort(field, "desc");
-      } else if (sortOrder === "desc") {
-        onSort(null, null);
-      } else {
-        onSort(field, "asc");
-      }
-    } else {
-      onSort(field, "asc");
-    }
-    setShowSortDropdown(false);
+  const getSortLabel = (field: SortField) =>
+    sortOptions.find((option) => option.key === field)?.label ?? field;
+
+  // Fields not yet used by a sort level, plus the given level's own field
+  const getAvailableSortOptions = (ownField?: SortField) =>
+    sortOptions.filter(
+      (option) =>
+        option.key === ownField ||
+        !sortKeys.some((key) => key.field === option.key)
+    );
+
+  const updateSortKey = (index: number, key: SortKey) => {
+    onSort(sortKeys.map((current, i) => (i === index ? key : current)));
   };
 
-  const handlePendingFilterChange = (field: FilterField, value: string) => {
-    setPendingFilterField(field);
-    setPendingFilterValue(value);
+  const moveSortKey = (index: number, offset: -1 | 1) => {
+    onSort(moveItem(sortKeys, index, offset));
+  };
+
+  const moveField = (index: number, offset: -1 | 1) => {
+    onColumnOrder(
+      moveItem(
+        orderedFields.map((field) => field.key),
+        index,
+        offset
+      )
+    );
   };
 
   const handleApplyFilter = () => {
-    if (pendingFilterField && pendingFilterValue.trim()) {
-      onFilter(pendingFilterField, pendingFilterValue);
-    } else {
-      onFilter(null, "");
-    }
+    // Conditions left without a value are dropped rather than saved
+    onFilter(pruneFilter(pendingFilter));
     setShowFilterDropdown(false);
   };
 
   const handleCancelFilter = () => {
-    setPendingFilterField(filterField);
-    setPendingFilterValue(filterValue);
+    setPendingFilter(filter);
     setShowFilterDropdown(false);
   };
 
   const handleClearFilter = () => {
-    setPendingFilterField(null);
-    setPendingFilterValue("");
+    setPendingFilter(EMPTY_FILTER);
   };
 
   const handleCellViewSelect = (mode: CellViewMode) => {
@@ -206,32 +256,80 @@ export default function HeaderBar({
     console.log("All notifications marked as read");
   };
 
+  const activeSheetIndex = Math.max(
+    0,
+    sheets.findIndex((sheet) => sheet.id === activeSheetId)
+  );
+  const activeSheet = sheets[activeSheetIndex];
+  const sheetNames = sheets.map((sheet) => sheet.name);
+
+  // Put a new sheet right after the active one and switch to it
+  const insertSheet = (sheet: WorkbookSheet) => {
+    const next = [...sheets];
+    next.splice(activeSheetIndex + 1, 0, sheet);
+    onSheetsChange(next, sheet.id);
+  };
+
+  const moveSheet = (index: number, offset: -1 | 1) => {
+    onSheetsChange(moveItem(sheets, index, offset), activeSheetId);
+  };
+
   const handleSpreadsheetMenuAction = (action: string) => {
     console.log(`Spreadsheet menu action: ${action}`);
     setShowSpreadsheetMenu(false);
 
     switch (action) {
       case "rename": {
-        const newName = prompt("Enter new spreadsheet name:", "Spreadsheet 3");
-        if (newName) {
-          alert(`Spreadsheet renamed to "${newName}"`);
+        const newName = prompt(
+          "Enter new sheet name:",
+          activeSheet.name
+        )?.trim();
+        if (!newName || newName === activeSheet.name) break;
+        if (sheetNames.includes(newName)) {
+          alert(`A sheet named "${newName}" already exists`);
+          break;
         }
+        onSheetsChange(
+          sheets.map((sheet) =>
+            sheet.id === activeSheetId ? { ...sheet, name: newName } : sheet
+          ),
+          activeSheetId
+        );
         break;
       }
       case "duplicate":
-        alert("Spreadsheet duplicated successfully!");
+        insertSheet(duplicateSheet(activeSheet, sheetNames));
+        break;
+      case "new":
+        insertSheet(
+          createSheet(getUniqueName(`Sheet ${sheets.length + 1}`, sheetNames))
+        );
         break;
       case "share":
         alert("Share dialog opened");
         break;
       case "export":
-        alert("Export options opened");
+        setShowExportDialog(true);
         break;
-      case "delete":
-        if (confirm("Are you sure you want to delete this spreadsheet?")) {
-          alert("Spreadsheet deleted");
+      case "delete": {
+        if (sheets.length <= 1) {
+          alert("Cannot delete the last sheet");
+          break;
+        }
+        if (
+          confirm(
+            `Delete sheet "${activeSheet.name}" with its ${activeSheet.rows.length} rows?`
+          )
+        ) {
+          const remaining = sheets.filter((sheet) => sheet.id !== activeSheetId);
+          // Switch to the sheet before the deleted one
+          onSheetsChange(
+            remaining,
+            remaining[Math.max(0, activeSheetIndex - 1)].id
+          );
         }
         break;
+      }
       default:
         break;
     }
@@ -245,57 +343,48 @@ export default function HeaderBar({
         const input = document.createElement("input");
         input.type = "file";
         input.accept = ".csv,.xlsx,.json";
-        input.onchange = (e) => {
+        input.onchange = async (e) => {
           const file = (e.target as HTMLInputElement).files?.[0];
-          if (file) {
-            alert(`Importing file: ${file.name}`);
+          if (!file) return;
+
+          const extension = file.name.split(".").pop()?.toLowerCase();
+          try {
+            if (extension === "csv") {
+              setPendingImport({
+                fileName: file.name,
+                source: { kind: "csv", text: await file.text() },
+              });
+            } else if (extension === "xlsx") {
+              const sheets = await readXlsx(await file.arrayBuffer());
+              setPendingImport({
+                fileName: file.name,
+                source: { kind: "xlsx", sheets },
+              });
+            } else if (extension === "json") {
+              setPendingJsonImport({
+                fileName: file.name,
+                result: parseWorkbookJson(await file.text()),
+              });
+            } else {
+              alert(`Importing .${extension} files is not supported yet`);
+            }
+          } catch (error) {
+            console.error("Import failed:", error);
+            alert(`Could not read ${file.name}: ${(error as Error).message}`);
           }
         };
         input.click();
         break;
       }
 
-      case "Export": {
-        const data = [
-          [
-            "Job Request",
-            "Submitted",
-            "Status",
-            "Submitter",
-            "URL",
-            "Assigned",
-            "Priority",
-            "Due Date",
-            "Est. Value",
-          ],
-          [
-            "Launch social media campaign",
-            "15-11-2024",
-            "In-process",
-            "Aisha Patel",
-            "www.aishapatel.com",
-            "Sophie Choudhury",
-            "Medium",
-            "20-11-2024",
-            "6,200,000",
-          ],
-        ];
-        const csvContent = data.map((row) => row.join(",")).join("\n");
-        const blob = new Blob([csvContent], { type: "text/csv" });
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement("a");
-        a.href = url;
-        a.download = "spreadsheet-export.csv";
-        a.click();
-        URL.revokeObjectURL(url);
-        alert("Data exported as CSV file");
+      case "Export":
+        setShowExportDialog(true);
         break;
-      }
 
       case "Share": {
         if (navigator.share) {
           navigator.share({
-            title: "Spreadsheet 3",
+            title: activeSheet.name,
             text: "Check out this spreadsheet",
             url: window.location.href,
           });
@@ -328,22 +417,23 @@ export default function HeaderBar({
     }
   };
 
+  const searchError = parseSearchQuery(localSearchTerm, filterFields).error;
+
+  // Enter jumps to the next match, Shift+Enter to the previous one
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
-    if (localSearchTerm.trim()) {
-      setIsSearching(true);
-      console.log(`Searching for: ${localSearchTerm}`);
-      onSearch(localSearchTerm.trim());
-
-      setTimeout(() => {
-        setIsSearching(false);
-      }, 500);
+    if (localSearchTerm.trim()) onSearchStep("next");
+  };
+
+  const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter" && e.shiftKey) {
+      e.preventDefault();
+      if (localSearchTerm.trim()) onSearchStep("previous");
     }
   };
 
   const clearSearch = () => {
     setLocalSearchTerm("");
-    setIsSearching(false);
     onSearch("");
     console.log("Search cleared");
   };
@@ -408,10 +498,90 @@ export default function HeaderBar({
                 />
               </svg>
             </div>
-            <span className="text-sm sm:text-base font-medium text-gray-800 truncate">
-              <span className="hidden md:inline">Spreadsheet 3</span>
-              <span className="md:hidden">Sheet 3</span>
-            </span>
+            <div className="relative min-w-0">
+              <button
+                onClick={() => setShowSheetList(!showSheetList)}
+                className="flex items-center space-x-1 text-sm sm:text-base font-medium text-gray-800 hover:bg-gray-100 rounded px-1 min-w-0"
+                title="Switch sheet"
+              >
+                <span className="truncate">{activeSheet.name}</span>
+                <svg
+                  className="w-3 h-3 text-gray-500 flex-shrink-0"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M19 9l-7 7-7-7"
+                  />
+                </svg>
+              </button>
+
+              {showSheetList && (
+                <div className="absolute top-full left-0 mt-1 w-64 bg-white border border-gray-200 rounded-md shadow-lg z-[9999]">
+                  <div className="p-2">
+                    <div className="text-xs font-medium text-gray-700 mb-2">
+                      Sheets
+                    </div>
+                    {sheets.map((sheet, index) => (
+                      <div
+                        key={sheet.id}
+                        className={`flex items-center space-x-1 rounded ${
+                          sheet.id === activeSheetId
+                            ? "bg-blue-50"
+                            : "hover:bg-gray-50"
+                        }`}
+                      >
+                        <button
+                          onClick={() => {
+                            onSheetsChange(sheets, sheet.id);
+                            setShowSheetList(false);
+                          }}
+                          className={`flex-1 min-w-0 flex items-center justify-between text-left px-2 py-1.5 text-xs ${
+                            sheet.id === activeSheetId
+                              ? "text-blue-700 font-medium"
+                              : "text-gray-700"
+                          }`}
+                        >
+                          <span className="truncate">{sheet.name}</span>
+                          <span className="text-gray-400 ml-2 flex-shrink-0">
+                            {sheet.rows.length} rows
+                          </span>
+                        </button>
+                        <button
+                          onClick={() => moveSheet(index, -1)}
+                          disabled={index === 0}
+                          className="px-1 py-1 text-xs text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                          title="Move up"
+                        >
+                          ▲
+                        </button>
+                        <button
+                          onClick={() => moveSheet(index, 1)}
+                          disabled={index === sheets.length - 1}
+                          className="px-1 py-1 text-xs text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                          title="Move down"
+                        >
+                          ▼
+                        </button>
+                      </div>
+                    ))}
+                    <button
+                      onClick={() => {
+                        handleSpreadsheetMenuAction("new");
+                        setShowSheetList(false);
+                      }}
+                      className="w-full text-left mt-1 px-2 py-1.5 text-xs text-blue-600 hover:text-blue-800 hover:bg-blue-50 rounded"
+                    >
+                      + New sheet
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
             <div className="relative flex-shrink-0">
               <button
                 onClick={() => setShowSpreadsheetMenu(!showSpreadsheetMenu)}
@@ -440,13 +610,19 @@ export default function HeaderBar({
                       onClick={() => handleSpreadsheetMenuAction("rename")}
                       className="w-full text-left px-3 py-2 text-sm text-gray-700 hover:bg-gray-100"
                     >
-                      Rename spreadsheet
+                      Rename sheet
                     </button>
                     <button
                       onClick={() => handleSpreadsheetMenuAction("duplicate")}
                       className="w-full text-left px-3 py-2 text-sm text-gray-700 hover:bg-gray-100"
                     >
-                      Duplicate
+                      Duplicate sheet
+                    </button>
+                    <button
+                      onClick={() => handleSpreadsheetMenuAction("new")}
+                      className="w-full text-left px-3 py-2 text-sm text-gray-700 hover:bg-gray-100"
+                    >
+                      New sheet
                     </button>
                     <button
                       onClick={() => handleSpreadsheetMenuAction("share")}
@@ -465,7 +641,7 @@ export default function HeaderBar({
                       onClick={() => handleSpreadsheetMenuAction("delete")}
                       className="w-full text-left px-3 py-2 text-sm text-red-600 hover:bg-red-50"
                     >
-                      Delete spreadsheet
+                      Delete sheet
                     </button>
                   </div>
                 </div>
@@ -480,7 +656,7 @@ export default function HeaderBar({
           <div className="flex-1 sm:flex-none md:flex-none min-w-0">
             <form
               onSubmit={handleSearch}
-              className="flex items-center space-x-2 min-w-0"
+              className="relative flex items-center space-x-2 min-w-0"
             >
               <svg
                 className="w-4 h-4 text-gray-400 hidden sm:block flex-shrink-0"
@@ -507,12 +683,53 @@ export default function HeaderBar({
                     onSearch(e.target.value);
                   }
                 }}
+                onKeyDown={handleSearchKeyDown}
                 placeholder="Search..."
-                className={`border border-gray-300 rounded px-2 sm:px-3 py-1.5 sm:py-2 text-sm placeholder-gray-500 focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-transparent w-full sm:w-32 md:w-36 lg:w-48 bg-gray-50 min-w-0 ${
-                  isSearching ? "bg-yellow-50" : ""
+                title={
+                  'Words, "phrases", field:value, due<01-12-2024, -exclude, a OR b\n' +
+                  "Enter for the next match, Shift+Enter for the previous one"
+                }
+                className={`border rounded px-2 sm:px-3 py-1.5 sm:py-2 text-sm placeholder-gray-500 focus:outline-none focus:ring-1 focus:border-transparent w-full sm:w-32 md:w-36 lg:w-48 bg-gray-50 min-w-0 ${
+                  searchError
+                    ? "border-red-400 focus:ring-red-500"
+                    : "border-gray-300 focus:ring-blue-500"
                 }`}
-                disabled={isSearching}
               />
+              {searchError && (
+                <div className="absolute top-full left-0 mt-1 z-50 w-64 bg-red-50 border border-red-200 text-red-700 text-xs rounded px-2 py-1 shadow-sm">
+                  {searchError}
+                </div>
+              )}
+              {localSearchTerm && (
+                <button
+                  type="button"
+                  onClick={() => onMatchingRowsOnly(!matchingRowsOnly)}
+                  className={`p-1 rounded flex-shrink-0 transition-colors ${
+                    matchingRowsOnly
+                      ? "bg-yellow-100 text-yellow-800"
+                      : "text-gray-400 hover:text-gray-600 hover:bg-gray-100"
+                  }`}
+                  title={
+                    matchingRowsOnly
+                      ? "Showing only matching rows"
+                      : "Show only matching rows"
+                  }
+                >
+                  <svg
+                    className="w-4 h-4"
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M3 4h18l-7 8v6l-4 2v-8L3 4z"
+                    />
+                  </svg>
+                </button>
+              )}
               {localSearchTerm && (
                 <button
                   type="button"
@@ -776,12 +993,12 @@ export default function HeaderBar({
                 </button>
 
                 {showHideFieldsDropdown && (
-                  <div className="absolute top-full left-0 mt-1 w-48 bg-white border border-gray-200 rounded-md shadow-lg z-[9999]">
+                  <div className="absolute top-full left-0 mt-1 w-56 bg-white border border-gray-200 rounded-md shadow-lg z-[9999]">
                     <div className="p-2">
                       <div className="text-xs font-medium text-gray-700 mb-2">
                         Column Visibility
                       </div>
-                      {availableFields.map((field) => (
+                      {orderedFields.map((field, index) => (
                         <label
                           key={field.key}
                           className="flex items-center space-x-2 py-1 hover:bg-gray-50"
@@ -812,6 +1029,29 @@ export default function HeaderBar({
                               />
                             </svg>
                           )}
+                          <span className="flex-1" />
+                          <button
+                            onClick={(e) => {
+                              e.preventDefault();
+                              moveField(index, -1);
+                            }}
+                            disabled={index === 0}
+                            className="px-1 text-xs text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                            title="Move left"
+                          >
+                            ▲
+                          </button>
+                          <button
+                            onClick={(e) => {
+                              e.preventDefault();
+                              moveField(index, 1);
+                            }}
+                            disabled={index === orderedFields.length - 1}
+                            className="px-1 text-xs text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                            title="Move right"
+                          >
+                            ▼
+                          </button>
                         </label>
                       ))}
                     </div>
@@ -824,7 +1064,7 @@ export default function HeaderBar({
                 <button
                   onClick={() => setShowSortDropdown(!showSortDropdown)}
                   className={`flex items-center space-x-1 px-2 py-1.5 lg:py-1 text-xs rounded transition-colors font-medium text-gray-700 w-full lg:w-auto justify-center lg:justify-start ${
-                    sortField !== null
+                    sortKeys.length > 0
                       ? "bg-blue-100 text-blue-700 border border-blue-300"
                       : "hover:bg-gray-200"
                   }`}
@@ -844,8 +1084,11 @@ export default function HeaderBar({
                   </svg>
                   <span className="hidden sm:inline">Sort</span>
                   <span className="sm:hidden">Sort</span>
-                  {sortField && (
-                    <span className="hidden sm:inline">({sortField})</span>
+                  {sortKeys.length > 0 && (
+                    <span className="hidden sm:inline">
+                      ({getSortLabel(sortKeys[0].field)}
+                      {sortKeys.length > 1 ? ` +${sortKeys.length - 1}` : ""})
+                    </span>
                   )}
                   <svg
                     className="w-3 h-3"
@@ -863,33 +1106,114 @@ export default function HeaderBar({
                 </button>
 
                 {showSortDropdown && (
-                  <div className="absolute top-full left-0 mt-1 w-44 bg-white border border-gray-200 rounded-md shadow-lg z-[9999]">
-                    <div className="p-2">
-                      <div className="text-xs font-medium text-gray-700 mb-2">
+                  <div className="absolute top-full left-0 mt-1 w-72 bg-white border border-gray-200 rounded-md shadow-lg z-[9999]">
+                    <div className="p-2 space-y-2">
+                      <div className="text-xs font-medium text-gray-700">
                         Sort by
                       </div>
-                      {sortOptions.map((option) => (
-                        <button
-                          key={option.key || "none"}
-                          onClick={() => handleSortSelect(option.key)}
-                          className={`w-full text-left px-2 py-1 text-xs rounded hover:bg-gray-50 flex items-center justify-between ${
-                            sortField === option.key
-                              ? "bg-blue-50 text-blue-700"
-                              : "text-gray-700"
-                          }`}
+                      {sortKeys.length === 0 && (
+                        <div className="text-xs text-gray-500">
+                          No sorting applied
+                        </div>
+                      )}
+                      {sortKeys.map((key, index) => (
+                        <div
+                          key={key.field}
+                          className="flex items-center space-x-1"
                         >
-                          <span>{option.label}</span>
-                          {sortField === option.key && option.key !== null && (
-                            <span className="text-xs">
-                              {sortOrder === "asc"
-                                ? "↑"
-                                : sortOrder === "desc"
-                                ? "↓"
-                                : ""}
-                            </span>
-                          )}
-                        </button>
+                          <span className="w-8 text-xs text-gray-500 flex-shrink-0">
+                            {index === 0 ? "By" : "Then"}
+                          </span>
+                          <select
+                            value={key.field}
+                            onChange={(e) =>
+                              updateSortKey(index, {
+                                ...key,
+                                field: e.target.value,
+                              })
+                            }
+                            className="flex-1 min-w-0 text-xs border border-gray-300 rounded px-1 py-1 focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                          >
+                            {getAvailableSortOptions(key.field).map(
+                              (option) => (
+                                <option key={option.key} value={option.key}>
+                                  {option.label}
+                                </option>
+                              )
+                            )}
+                          </select>
+                          <button
+                            onClick={() =>
+                              updateSortKey(index, {
+                                ...key,
+                                order: key.order === "asc" ? "desc" : "asc",
+                              })
+                            }
+                            className="px-1.5 py-1 text-xs rounded border border-gray-300 text-gray-700 hover:bg-gray-50 whitespace-nowrap"
+                            title="Toggle ascending / descending"
+                          >
+                            {key.order === "asc" ? "↑ Asc" : "↓ Desc"}
+                          </button>
+                          <button
+                            onClick={() => moveSortKey(index, -1)}
+                            disabled={index === 0}
+                            className="px-1 py-1 text-xs text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                            title="Move up"
+                          >
+                            ▲
+                          </button>
+                          <button
+                            onClick={() => moveSortKey(index, 1)}
+                            disabled={index === sortKeys.length - 1}
+                            className="px-1 py-1 text-xs text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                            title="Move down"
+                          >
+                            ▼
+                          </button>
+                          <button
+                            onClick={() =>
+                              onSort(sortKeys.filter((_, i) => i !== index))
+                            }
+                            className="px-1 py-1 text-xs text-gray-400 hover:text-red-600"
+                            title="Remove sort level"
+                          >
+                            ✕
+                          </button>
+                        </div>
                       ))}
+                      <div className="flex items-center justify-between pt-2 border-t border-gray-100">
+                        {getAvailableSortOptions().length > 0 ? (
+                          <select
+                            value=""
+                            onChange={(e) =>
+                              onSort([
+                                ...sortKeys,
+                                { field: e.target.value, order: "asc" },
+                              ])
+                            }
+                            className="text-xs border border-gray-300 rounded px-1 py-1 text-gray-700 focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                          >
+                            <option value="" disabled>
+                              + Add sort level
+                            </option>
+                            {getAvailableSortOptions().map((option) => (
+                              <option key={option.key} value={option.key}>
+                                {option.label}
+                              </option>
+                            ))}
+                          </select>
+                        ) : (
+                          <span />
+                        )}
+                        {sortKeys.length > 0 && (
+                          <button
+                            onClick={() => onSort([])}
+                            className="text-xs text-gray-600 hover:text-gray-800 px-2 py-1 rounded hover:bg-gray-100"
+                          >
+                            Clear
+                          </button>
+                        )}
+                      </div>
                     </div>
                   </div>
                 )}
@@ -902,12 +1226,11 @@ export default function HeaderBar({
                     setShowFilterDropdown(!showFilterDropdown);
                     // Reset pending values when opening
                     if (!showFilterDropdown) {
-                      setPendingFilterField(filterField);
-                      setPendingFilterValue(filterValue);
+                      setPendingFilter(filter);
                     }
                   }}
                   className={`flex items-center space-x-1 px-2 py-1.5 lg:py-1 text-xs rounded transition-colors font-medium text-gray-700 w-full lg:w-auto justify-center lg:justify-start ${
-                    filterField !== null
+                    activeFilterCount > 0
                       ? "bg-blue-100 text-blue-700 border border-blue-300"
                       : "hover:bg-gray-200"
                   }`}
@@ -927,8 +1250,10 @@ export default function HeaderBar({
                   </svg>
                   <span className="hidden sm:inline">Filter</span>
                   <span className="sm:hidden">Filter</span>
-                  {filterField && (
-                    <span className="hidden sm:inline">({filterField})</span>
+                  {activeFilterCount > 0 && (
+                    <span className="hidden sm:inline">
+                      ({activeFilterCount})
+                    </span>
                   )}
                   <svg
                     className="w-3 h-3"
@@ -947,63 +1272,21 @@ export default function HeaderBar({
 
                 {showFilterDropdown && (
                   <div
-                    className="absolute top-full left-0 mt-1 w-60 bg-white border border-gray-200 rounded-md shadow-lg z-[9999]"
+                    className="absolute top-full left-0 mt-1 w-[28rem] max-w-[90vw] max-h-[70vh] overflow-y-auto bg-white border border-gray-200 rounded-md shadow-lg z-[9999]"
                     data-filter-dropdown
                   >
                     <div className="p-3">
                       <div className="text-xs font-medium text-gray-700 mb-3">
-                        Filter by
+                        Filter rows
                       </div>
-                      {filterOptions.map((option) => (
-                        <div key={option.key} className="mb-3">
-                          <div className="text-xs text-gray-600 mb-1">
-                            {option.label}
-                          </div>
-                          {option.type === "select" && option.options ? (
-                            <select
-                              value={
-                                pendingFilterField === option.key
-                                  ? pendingFilterValue
-                                  : ""
-                              }
-                              onChange={(e) =>
-                                handlePendingFilterChange(
-                                  option.key,
-                                  e.target.value
-                                )
-                              }
-                              className="w-full text-xs border border-gray-300 rounded px-2 py-1 focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
-                            >
-                              <option value="">All</option>
-                              {option.options.map((opt) => (
-                                <option key={opt} value={opt}>
-                                  {opt}
-                                </option>
-                              ))}
-                            </select>
-                          ) : (
-                            <input
-                              type={option.type === "date" ? "date" : "text"}
-                              value={
-                                pendingFilterField === option.key
-                                  ? pendingFilterValue
-                                  : ""
-                              }
-                              onChange={(e) =>
-                                handlePendingFilterChange(
-                                  option.key,
-                                  e.target.value
-                                )
-                              }
-                              placeholder={`Filter by ${option.label.toLowerCase()}`}
-                              className="w-full text-xs border border-gray-300 rounded px-2 py-1 focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
-                            />
-                          )}
-                        </div>
-                      ))}
+                      <FilterBuilder
+                        filter={pendingFilter}
+                        fields={filterFields}
+                        onChange={setPendingFilter}
+                      />
 
                       {/* Action buttons */}
-                      <div className="flex items-center justify-between pt-2 border-t border-gray-200">
+                      <div className="flex items-center justify-between mt-3 pt-2 border-t border-gray-200">
                         <button
                           onClick={handleClearFilter}
                           className="text-xs text-red-600 hover:text-red-800 px-2 py-1 rounded hover:bg-red-50"
@@ -1183,7 +1466,8 @@ export default function HeaderBar({
         showSortDropdown ||
         showCellViewDropdown ||
         showNotifications ||
-        showSpreadsheetMenu) && (
+        showSpreadsheetMenu ||
+        showSheetList) && (
         <div
           className="fixed inset-0 z-40"
           onClick={() => {
@@ -1192,7 +1476,53 @@ export default function HeaderBar({
             setShowCellViewDropdown(false);
             setShowNotifications(false);
             setShowSpreadsheetMenu(false);
+            setShowSheetList(false);
+          }}
+        />
+      )}
+
+      {pendingImport && (
+        <ImportDialog
+          fileName={pendingImport.fileName}
+          source={pendingImport.source}
+          customColumns={customColumns}
+          builtInColumns={builtInColumns}
+          onImport={(records, newColumns, mode) => {
+            onImportRows(records, newColumns, mode);
+            setPendingImport(null);
+          }}
+          onClose={() => setPendingImport(null)}
+        />
+      )}
+
+      {pendingJsonImport && (
+        <JsonImportDialog
+          fileName={pendingJsonImport.fileName}
+          result={pendingJsonImport.result}
+          onImport={(workbook, mode) => {
+            onImportWorkbook(workbook, mode);
+            setPendingJsonImport(null);
           }}
+          onClose={() => setPendingJsonImport(null)}
+        />
+      )}
+
+      {showExportDialog && (
+        <ExportDialog
+          sheets={sheets}
+          activeSheetId={activeSheetId}
+          data={data}
+          customColumns={customColumns}
+          builtInColumns={builtInColumns}
+          columnWidths={columnWidths}
+          hiddenFields={hiddenFields}
+          columnOrder={columnOrder}
+          cellViewMode={cellViewMode}
+          frozenRows={frozenRows}
+          frozenColumns={frozenColumns}
+          processing={{ filter, sortKeys }}
+          selection={selection}
+          onClose={() => setShowExportDialog(false)}
         />
       )}
 
@@ -0,0 +1,268 @@
+import { useMemo, useState } from 'react';
+import type { SpreadsheetRow, CustomColumn } from '../types';
+import { parseCsv, detectDelimiter, CSV_DELIMITERS } from '../utils/csv';
+import type { CsvDelimiter } from '../utils/csv';
+import { suggestImportMapping, buildImportRecords } from '../utils/importMapping';
+import type { ImportTarget, ImportSource } from '../utils/importMapping';
+import type { BuiltInColumnState } from '../utils/columns';
+import type { ImportMode } from '../utils/rows';
+
+interface ImportDialogProps {
+  fileName: string;
+  source: ImportSource;
+  customColumns: CustomColumn[];
+  builtInColumns: BuiltInColumnState[];
+  onImport: (records: Partial<SpreadsheetRow>[], newColumns: CustomColumn[], mode: ImportMode) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_ROWS = 5;
+
+export default function ImportDialog({
+  fileName,
+  source,
+  customColumns,
+  builtInColumns,
+  onImport,
+  onClose
+}: ImportDialogProps) {
+  const [delimiter, setDelimiter] = useState<CsvDelimiter>(() =>
+    source.kind === 'csv' ? detectDelimiter(source.text) : ','
+  );
+  const [sheetIndex, setSheetIndex] = useState(0);
+  const [hasHeaderRow, setHasHeaderRow] = useState(true);
+  const [mode, setMode] = useState<ImportMode>('append');
+
+  const parsedRows = useMemo(
+    () => (source.kind === 'csv' ? parseCsv(source.text, delimiter) : source.sheets[sheetIndex]?.rows ?? []),
+    [source, delimiter, sheetIndex]
+  );
+
+  const columnCount = useMemo(
+    () => parsedRows.reduce((max, row) => Math.max(max, row.length), 0),
+    [parsedRows]
+  );
+
+  const headers = useMemo(() => {
+    const first = hasHeaderRow ? parsedRows[0] ?? [] : [];
+    return Array.from({ length: columnCount }, (_, i) => first[i]?.trim() || `Column ${i + 1}`);
+  }, [parsedRows, hasHeaderRow, columnCount]);
+
+  const bodyRows = useMemo(
+    () => (hasHeaderRow ? parsedRows.slice(1) : parsedRows),
+    [parsedRows, hasHeaderRow]
+  );
+
+  // Mapping is keyed by the header list so changing delimiter or header mode re-suggests it
+  const headerKey = headers.join('\u0000');
+  const [mappingState, setMappingState] = useState<{ key: string; mapping: ImportTarget[] }>(() => ({
+    key: headerKey,
+    mapping: suggestImportMapping(headers, customColumns, builtInColumns),
+  }));
+  const mapping = mappingState.key === headerKey
+    ? mappingState.mapping
+    : suggestImportMapping(headers, customColumns, builtInColumns);
+
+  const updateMapping = (colIndex: number, target: ImportTarget) => {
+    const next = [...mapping];
+    next[colIndex] = target;
+    setMappingState({ key: headerKey, mapping: next });
+  };
+
+  const { records, newColumns, issues } = useMemo(
+    () => buildImportRecords(bodyRows, mapping, customColumns),
+    [bodyRows, mapping, customColumns]
+  );
+
+  const mappedColumns = mapping
+    .map((target, index) => ({ target, header: headers[index], index }))
+    .filter(col => col.target);
+
+  const targetLabel = (target: ImportTarget) => {
+    if (target.startsWith('new:')) return `${target.slice(4)} (new)`;
+    if (target.startsWith('custom:')) return customColumns.find(col => col.id === target.slice(7))?.name ?? target;
+    return builtInColumns.find(field => field.id === target)?.label ?? target;
+  };
+
+  const handleImport = () => {
+    if (mode === 'replace' && !confirm(`Replace all existing rows with ${records.length} imported rows?`)) {
+      return;
+    }
+    onImport(records, newColumns, mode);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/30 flex items-center justify-center z-[10001] p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="px-4 py-3 border-b border-gray-200 flex items-center justify-between">
+          <div>
+            <h2 className="text-sm font-semibold text-gray-900">
+              Import {source.kind === 'csv' ? 'CSV' : 'Excel workbook'}
+            </h2>
+            <p className="text-xs text-gray-500 truncate">
+              {fileName} • {bodyRows.length} rows • {columnCount} columns
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600" title="Close">
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {/* Parse options */}
+          <div className="flex flex-wrap items-center gap-4 text-xs text-gray-700">
+            {source.kind === 'csv' ? (
+              <label className="flex items-center space-x-2">
+                <span>Delimiter</span>
+                <select
+                  value={delimiter}
+                  onChange={(e) => setDelimiter(e.target.value as CsvDelimiter)}
+                  className="border border-gray-300 rounded px-2 py-1 focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                >
+                  {CSV_DELIMITERS.map(option => (
+                    <option key={option.label} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </label>
+            ) : (
+              <label className="flex items-center space-x-2">
+                <span>Worksheet</span>
+                <select
+                  value={sheetIndex}
+                  onChange={(e) => setSheetIndex(Number(e.target.value))}
+                  className="border border-gray-300 rounded px-2 py-1 focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                >
+                  {source.sheets.map((sheet, index) => (
+                    <option key={index} value={index}>{sheet.name} ({sheet.rows.length} rows)</option>
+                  ))}
+                </select>
+              </label>
+            )}
+            <label className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={hasHeaderRow}
+                onChange={(e) => setHasHeaderRow(e.target.checked)}
+                className="rounded text-blue-600"
+              />
+              <span>First row contains headers</span>
+            </label>
+          </div>
+
+          {/* Column mapping */}
+          <div>
+            <div className="text-xs font-medium text-gray-700 mb-2">Column mapping</div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {headers.map((header, colIndex) => (
+                <div key={colIndex} className="flex items-center space-x-2 text-xs">
+                  <span className="w-32 truncate text-gray-600" title={header}>{header}</span>
+                  <span className="text-gray-400">→</span>
+                  <select
+                    value={mapping[colIndex] ?? ''}
+                    onChange={(e) => updateMapping(colIndex, e.target.value)}
+                    className="flex-1 min-w-0 border border-gray-300 rounded px-2 py-1 focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    <option value="">Skip column</option>
+                    <optgroup label="Fields">
+                      {builtInColumns.map(field => (
+                        <option key={field.id} value={field.id}>{field.label}</option>
+                      ))}
+                    </optgroup>
+                    {customColumns.length > 0 && (
+                      <optgroup label="Custom columns">
+                        {customColumns.map(col => (
+                          <option key={col.id} value={`custom:${col.id}`}>{col.name}</option>
+                        ))}
+                      </optgroup>
+                    )}
+                    <option value={`new:${header}`}>New column "{header}"</option>
+                  </select>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Preview */}
+          <div>
+            <div className="text-xs font-medium text-gray-700 mb-2">
+              Preview (first {Math.min(PREVIEW_ROWS, bodyRows.length)} of {bodyRows.length} rows)
+            </div>
+            <div className="overflow-x-auto border border-gray-200 rounded">
+              <table className="w-full text-xs">
+                <thead className="bg-gray-50">
+                  <tr>
+                    {mappedColumns.map(col => (
+                      <th key={col.index} className="px-2 py-1 text-left font-semibold text-gray-700 border-b border-gray-200 whitespace-nowrap">
+                        {targetLabel(col.target)}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {bodyRows.slice(0, PREVIEW_ROWS).map((cells, rowIndex) => (
+                    <tr key={rowIndex} className="border-b border-gray-100 last:border-b-0">
+                      {mappedColumns.map(col => (
+                        <td key={col.index} className="px-2 py-1 text-gray-700 max-w-[200px] truncate" title={cells[col.index]}>
+                          {cells[col.index]}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {/* Coercion issues */}
+          {issues.length > 0 && (
+            <div className="bg-amber-50 border border-amber-200 rounded p-2 text-xs text-amber-800">
+              <div className="font-medium mb-1">
+                {issues.length} value{issues.length !== 1 ? 's' : ''} could not be converted and will use the default
+              </div>
+              <ul className="max-h-24 overflow-y-auto space-y-0.5">
+                {issues.slice(0, 20).map((issue, index) => (
+                  <li key={index}>Row {issue.row}, {issue.column}: {issue.message}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-4 py-3 border-t border-gray-200 flex items-center justify-between">
+          <div className="flex items-center space-x-4 text-xs text-gray-700">
+            <label className="flex items-center space-x-1">
+              <input type="radio" checked={mode === 'append'} onChange={() => setMode('append')} />
+              <span>Append to table</span>
+            </label>
+            <label className="flex items-center space-x-1">
+              <input type="radio" checked={mode === 'replace'} onChange={() => setMode('replace')} />
+              <span>Replace table data</span>
+            </label>
+          </div>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={onClose}
+              className="text-xs text-gray-600 hover:text-gray-800 px-3 py-1 border border-gray-300 rounded hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleImport}
+              disabled={records.length === 0 || mappedColumns.length === 0}
+              className="text-xs text-white bg-blue-600 hover:bg-blue-700 px-3 py-1 rounded disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Import {records.length} rows
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
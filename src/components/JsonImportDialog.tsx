@@ -0,0 +1,131 @@
+import { useState } from 'react';
+import type { WorkbookContents, WorkbookJsonParseResult } from '../utils/workbookJson';
+import type { ImportMode } from '../utils/rows';
+
+interface JsonImportDialogProps {
+  fileName: string;
+  result: WorkbookJsonParseResult;
+  onImport: (workbook: WorkbookContents, mode: ImportMode) => void;
+  onClose: () => void;
+}
+
+const MAX_LISTED_ERRORS = 200;
+
+export default function JsonImportDialog({ fileName, result, onImport, onClose }: JsonImportDialogProps) {
+  const [mode, setMode] = useState<ImportMode>('replace');
+  const { workbook, errors, invalidRowCount, fatalError } = result;
+  const validRowCount = workbook?.rows.length ?? 0;
+
+  const handleImport = () => {
+    if (!workbook) return;
+    if (mode === 'replace' && !confirm('Replace the current rows, columns and view settings with this workbook?')) {
+      return;
+    }
+    onImport(workbook, mode);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/30 flex items-center justify-center z-[10001] p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-4 py-3 border-b border-gray-200">
+          <h2 className="text-sm font-semibold text-gray-900">Import workbook JSON</h2>
+          <p className="text-xs text-gray-500 truncate">{fileName}</p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-3 text-xs">
+          {fatalError ? (
+            <div className="bg-red-50 border border-red-200 rounded p-3 text-red-800">{fatalError}</div>
+          ) : (
+            <>
+              <div className="flex flex-wrap gap-2">
+                <span className="bg-green-100 text-green-800 px-2 py-1 rounded-full border border-green-200 font-medium">
+                  {validRowCount} valid rows
+                </span>
+                {invalidRowCount > 0 && (
+                  <span className="bg-red-100 text-red-800 px-2 py-1 rounded-full border border-red-200 font-medium">
+                    {invalidRowCount} invalid rows
+                  </span>
+                )}
+                {workbook && workbook.customColumns.length > 0 && (
+                  <span className="bg-gray-100 text-gray-700 px-2 py-1 rounded-full border border-gray-200 font-medium">
+                    Custom columns: {workbook.customColumns.map(col => col.name).join(', ')}
+                  </span>
+                )}
+              </div>
+
+              {errors.length > 0 && (
+                <div>
+                  <div className="font-medium text-gray-700 mb-1">
+                    Validation errors — invalid rows will be skipped
+                  </div>
+                  <div className="border border-gray-200 rounded overflow-hidden max-h-72 overflow-y-auto">
+                    <table className="w-full">
+                      <thead className="bg-gray-50 sticky top-0">
+                        <tr className="text-left text-gray-700">
+                          <th className="px-2 py-1 font-semibold">Row</th>
+                          <th className="px-2 py-1 font-semibold">Id</th>
+                          <th className="px-2 py-1 font-semibold">Field</th>
+                          <th className="px-2 py-1 font-semibold">Problem</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {errors.slice(0, MAX_LISTED_ERRORS).map((error, index) => (
+                          <tr key={index} className="border-t border-gray-100">
+                            <td className="px-2 py-1 text-gray-600">{error.row}</td>
+                            <td className="px-2 py-1 text-gray-600">{error.id ?? '—'}</td>
+                            <td className="px-2 py-1 font-mono text-gray-700">{error.field}</td>
+                            <td className="px-2 py-1 text-red-700">{error.message}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                  {errors.length > MAX_LISTED_ERRORS && (
+                    <div className="text-gray-500 mt-1">
+                      …and {errors.length - MAX_LISTED_ERRORS} more
+                    </div>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="px-4 py-3 border-t border-gray-200 flex items-center justify-between">
+          <div className="flex items-center space-x-4 text-xs text-gray-700">
+            {!fatalError && (
+              <>
+                <label className="flex items-center space-x-1">
+                  <input type="radio" checked={mode === 'replace'} onChange={() => setMode('replace')} />
+                  <span>Replace workbook</span>
+                </label>
+                <label className="flex items-center space-x-1">
+                  <input type="radio" checked={mode === 'append'} onChange={() => setMode('append')} />
+                  <span>Append rows</span>
+                </label>
+              </>
+            )}
+          </div>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={onClose}
+              className="text-xs text-gray-600 hover:text-gray-800 px-3 py-1 border border-gray-300 rounded hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleImport}
+              disabled={!workbook || validRowCount === 0}
+              className="text-xs text-white bg-blue-600 hover:bg-blue-700 px-3 py-1 rounded disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Import {validRowCount} rows
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,16 +1,99 @@
-import React, { useState, useRef, useCallback, useEffect, useMemo } from 'react';
-import { mockSpreadsheetData } from '../data/mockData';
-import type { Status, Priority, SpreadsheetRow } from '../types';
-import type { SortField, FilterField, CellViewMode } from '../App';
+import React, { useState, useRef, useCallback, useEffect, useLayoutEffect, useMemo, useImperativeHandle } from 'react';
+import type { Status, Priority, SpreadsheetRow, CellRef, CustomColumn } from '../types';
+import type { SortKey, CellViewMode, SearchDirection } from '../App';
+import {
+  STATUS_VALUES,
+  PRIORITY_VALUES,
+  coerceStatus,
+  coercePriority,
+  createEmptyRow,
+  getNextRowId,
+  createColumnId,
+  orderFields,
+  moveField,
+} from '../utils/rows';
+import { getColumns, getNewColumnWidth, getWorkbookFields, isColumnNameTaken } from '../utils/columns';
+import type { BuiltInColumnState } from '../utils/columns';
+import { filterAndSortRows } from '../utils/processRows';
+import {
+  coerceCustomValue,
+  formatCellValue,
+  fromDateInputValue,
+  isChecked,
+  parseTags,
+  formatTags,
+  toDateInputValue,
+} from '../utils/columnTypes';
+import { isFormula, isFormulaError, formatFormulaValue } from '../utils/formula';
+import { createFormulaEngine } from '../utils/formulaEngine';
+import { columnLetter } from '../utils/xlsx';
+import { diffRows, diffRowMove, applyRowChanges, MAX_HISTORY } from '../utils/history';
+import type { HistoryEntry } from '../utils/history';
+import { removeViewField } from '../utils/sheets';
+import type { SavedView } from '../utils/storage';
+import { toClipboardText, toClipboardHtml, parseClipboardText, pasteCells } from '../utils/clipboard';
+import { toCellId, parseCellId, getRangeCellIds } from '../utils/selection';
+import type { CellPosition } from '../utils/selection';
+import { fillLine } from '../utils/fill';
+import { describeFilter, getFilterFields } from '../utils/filters';
+import type { FilterGroup } from '../utils/filters';
+import { getRowHeight, getOffsets, getVisibleRange, getScrollToReveal } from '../utils/virtualization';
+import { createRowPipeline } from '../utils/rowPipeline';
+import type { RowPipeline } from '../utils/rowPipeline';
+import type { RowQueryResult } from '../utils/rowIndex';
+import { applyReplacements } from '../utils/findReplace';
+import { parseSearchQuery, getHighlightTerms } from '../utils/searchQuery';
+import type { FindMatch, Replacement } from '../utils/findReplace';
+import AddColumnDialog from './AddColumnDialog';
+import FindReplaceDialog from './FindReplaceDialog';
 
 interface SpreadsheetTableProps {
+  data: SpreadsheetRow[];
+  setData: React.Dispatch<React.SetStateAction<SpreadsheetRow[]>>;
+  customColumns: CustomColumn[];
+  setCustomColumns: React.Dispatch<React.SetStateAction<CustomColumn[]>>;
+  builtInColumns: BuiltInColumnState[];
+  setBuiltInColumns: React.Dispatch<React.SetStateAction<BuiltInColumnState[]>>;
+  // The sheet's saved views, which refer to columns by field
+  views: SavedView[];
+  setViews: React.Dispatch<React.SetStateAction<SavedView[]>>;
+  // The view on screen; moving rows by hand clears its sort
+  activeViewId: string;
+  columnWidths: number[];
+  setColumnWidths: React.Dispatch<React.SetStateAction<number[]>>;
   hiddenFields?: string[];
-  sortField?: SortField | null;
-  sortOrder?: 'asc' | 'desc' | null;
-  filterField?: FilterField | null;
-  filterValue?: string;
+  sortKeys: SortKey[];
+  filter: FilterGroup;
+  columnOrder?: string[];
+  // Save a new column order to the view, after a column is dragged or moved with the keyboard
+  onColumnOrder?: (order: string[]) => void;
+  // How many of the rows and columns on screen stay pinned while the rest scroll
+  frozenRows?: number;
+  frozenColumns?: number;
+  onFreeze?: (frozen: { frozenRows?: number; frozenColumns?: number }) => void;
   searchTerm?: string;
+  // Hide rows without a search match
+  matchingRowsOnly?: boolean;
   cellViewMode?: CellViewMode;
+  onSelectionChange?: (cells: CellRef[]) => void;
+  ref?: React.Ref<SpreadsheetTableHandle>;
+}
+
+// Parts of the sheet a change replaces; whatever is left out stays as it is
+export interface SheetChange {
+  rows?: SpreadsheetRow[];
+  customColumns?: CustomColumn[];
+  builtInColumns?: BuiltInColumnState[];
+  columnWidths?: number[];
+  views?: SavedView[];
+}
+
+// Actions other parts of the page can trigger on the table
+export interface SpreadsheetTableHandle {
+  // Select the next or previous search match after the active cell, wrapping around
+  stepSearch: (direction: SearchDirection) => void;
+  // Replace parts of the sheet, e.g. with imported data, as one undoable step
+  commitChange: (label: string, next: SheetChange) => void;
 }
 
 interface ContextMenuProps {
@@ -19,11 +102,13 @@ interface ContextMenuProps {
   type: 'cell' | 'row' | 'column';
   rowIndex?: number;
   colIndex?: number;
+  frozenRows: number;
+  frozenColumns: number;
   onClose: () => void;
   onAction: (action: string, data?: { rowIndex?: number; colIndex?: number }) => void;
 }
 
-const ContextMenu: React.FC<ContextMenuProps> = ({ x, y, type, rowIndex, colIndex, onClose, onAction }) => {
+const ContextMenu: React.FC<ContextMenuProps> = ({ x, y, type, rowIndex, colIndex, frozenRows, frozenColumns, onClose, onAction }) => {
   const menuRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
@@ -54,19 +139,24 @@ const ContextMenu: React.FC<ContextMenuProps> = ({ x, y, type, rowIndex, colInde
       { label: 'Delete Row', action: 'deleteRow', danger: true },
       { label: 'Duplicate Row', action: 'duplicateRow' },
       { label: 'Clear Row', action: 'clearRow' },
+      { label: 'Freeze Up to This Row', action: 'freezeRows' },
+      ...(frozenRows > 0 ? [{ label: 'Unfreeze Rows', action: 'unfreezeRows' }] : []),
     ],
     column: [
       { label: 'Add Column Left', action: 'addColumnLeft' },
       { label: 'Add Column Right', action: 'addColumnRight' },
+      { label: 'Rename Column', action: 'renameColumn' },
       { label: 'Delete Column', action: 'deleteColumn', danger: true },
       { label: 'Clear Column', action: 'clearColumn' },
+      { label: 'Freeze Up to This Column', action: 'freezeColumns' },
+      ...(frozenColumns > 0 ? [{ label: 'Unfreeze Columns', action: 'unfreezeColumns' }] : []),
     ]
   };
 
   return (
     <div
       ref={menuRef}
-      className="fixed bg-white border border-gray-200 rounded-lg shadow-xl z-50 py-1 w-36 backdrop-blur-sm"
+      className="fixed bg-white border border-gray-200 rounded-lg shadow-xl z-50 py-1 w-48 backdrop-blur-sm"
       style={{ left: x, top: y }}
     >
       {menuItems[type].map((item, index) => (
@@ -87,35 +177,164 @@ const ContextMenu: React.FC<ContextMenuProps> = ({ x, y, type, rowIndex, colInde
   );
 };
 
+// Columns render between these widths, whatever width is stored for them
+const MIN_COLUMN_WIDTH = 120;
+const MAX_COLUMN_WIDTH = 400;
+const clampColumnWidth = (width: number | undefined) =>
+  Math.min(Math.max(width || MIN_COLUMN_WIDTH, MIN_COLUMN_WIDTH), MAX_COLUMN_WIDTH);
+
+// Shadows along the last frozen column and row, over the cells scrolling under them
+const FROZEN_COLUMN_EDGE =
+  'after:absolute after:top-0 after:-right-1.5 after:w-1.5 after:h-full after:bg-gradient-to-r after:from-black/15 after:to-transparent after:pointer-events-none';
+const FROZEN_ROW_EDGE =
+  'before:absolute before:left-0 before:-bottom-1.5 before:h-1.5 before:w-full before:bg-gradient-to-b before:from-black/15 before:to-transparent before:pointer-events-none';
+
 export default function SpreadsheetTable({ 
+  data,
+  setData,
+  customColumns,
+  setCustomColumns,
+  builtInColumns,
+  setBuiltInColumns,
+  views,
+  setViews,
+  activeViewId,
+  columnWidths,
+  setColumnWidths,
   hiddenFields = [], 
-  sortField = null,
-  sortOrder = null, 
-  filterField = null,
-  filterValue = '',
+  sortKeys,
+  filter,
+  columnOrder = [],
+  onColumnOrder,
+  frozenRows = 0,
+  frozenColumns = 0,
+  onFreeze,
   searchTerm = '',
-  cellViewMode = 'normal'
+  matchingRowsOnly = false,
+  cellViewMode = 'normal',
+  onSelectionChange,
+  ref
 }: SpreadsheetTableProps) {
-  const [data, setData] = useState<SpreadsheetRow[]>(mockSpreadsheetData);
-  const [columnWidths, setColumnWidths] = useState<number[]>([]);
   const [selectedCell, setSelectedCell] = useState<{row: number, col: number} | null>(null);
   const [selectedCells, setSelectedCells] = useState<Set<string>>(new Set());
+  // Far corner of a Shift or drag range; selectedCell is the anchor and stays put
+  const [rangeEnd, setRangeEnd] = useState<CellPosition | null>(null);
+  // Cell under the pointer while the fill handle is dragged
+  const [fillDrag, setFillDrag] = useState<{ target: CellPosition | null } | null>(null);
   const [editingCell, setEditingCell] = useState<{row: number, col: number} | null>(null);
   const [editValue, setEditValue] = useState('');
   const [isResizing, setIsResizing] = useState<{type: 'col', index: number} | null>(null);
-  const [customColumns, setCustomColumns] = useState<string[]>([]);
   const [contextMenu, setContextMenu] = useState<{x: number, y: number, type: 'cell' | 'row' | 'column', rowIndex?: number, colIndex?: number} | null>(null);
   const [isMultiSelect, setIsMultiSelect] = useState(false);
+  // Column insert position (index into the custom columns) while the add column dialog is open
+  const [columnDialog, setColumnDialog] = useState<{ position?: number } | null>(null);
+  const [showFindReplace, setShowFindReplace] = useState(false);
+  const [history, setHistory] = useState<{ undo: HistoryEntry[]; redo: HistoryEntry[] }>({ undo: [], redo: [] });
   
   const tableRef = useRef<HTMLTableElement>(null);
-  const resizeRef = useRef<{startX: number, startSize: number}>({startX: 0, startSize: 0});
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const headerRowRef = useRef<HTMLTableRowElement>(null);
+  const cornerCellRef = useRef<HTMLTableCellElement>(null);
+  const scrollFrameRef = useRef<number | null>(null);
+  // Set by keyboard moves so the new active cell is scrolled into view once rendered
+  const revealPendingRef = useRef(false);
+  // Scroll position and size of the grid, which decide the rows and columns rendered
+  const [viewport, setViewport] = useState({
+    top: 0,
+    left: 0,
+    width: window.innerWidth,
+    height: window.innerHeight,
+    headerHeight: 40,
+    rowHeaderWidth: 64,
+  });
+  const resizeRef = useRef<{startX: number, startSize: number, startWidths: number[]}>({startX: 0, startSize: 0, startWidths: []});
+  // What a mouse drag is selecting until the button is released
+  const dragSelectRef = useRef<'cells' | 'rows' | 'columns' | null>(null);
+  // A selected column header being dragged, and the visible position it would be dropped at
+  const [columnMove, setColumnMove] = useState<{ field: string; target: number } | null>(null);
+  // Selected rows being dragged by their numbers, and the position among the rows on screen they would be dropped at
+  const [rowMove, setRowMove] = useState<{ rowIds: number[]; target: number } | null>(null);
+
+  // The sheet's built-in and custom columns in workbook order
+  const columns = useMemo(() => getColumns(customColumns, builtInColumns), [customColumns, builtInColumns]);
+  const allHeaders = useMemo(() => columns.map(column => column.label), [columns]);
+  const allFields = useMemo(() => columns.map(column => column.id), [columns]);
+
+  // Formula results are kept in the engine and refreshed as the data changes
+  const formulaEngine = useMemo(() => createFormulaEngine(), []);
+  useMemo(() => formulaEngine.sync(data, allFields), [formulaEngine, data, allFields]);
+
+  // Every mutation goes through the history so it can be undone; a new change clears the redo stack
+  const recordHistory = useCallback((entry: HistoryEntry) => {
+    setHistory(prev => ({ undo: [...prev.undo, entry].slice(-MAX_HISTORY), redo: [] }));
+  }, []);
+
+  // Apply the next rows, columns and widths as one undoable step
+  const commitChange = (label: string, next: SheetChange) => {
+    const entry: HistoryEntry = { label, rows: next.rows ? diffRows(data, next.rows) : [] };
+
+    if (next.rows) setData(next.rows);
+    if (next.customColumns) {
+      entry.columns = { before: customColumns, after: next.customColumns };
+      setCustomColumns(next.customColumns);
+    }
+    if (next.builtInColumns) {
+      entry.builtInColumns = { before: builtInColumns, after: next.builtInColumns };
+      setBuiltInColumns(next.builtInColumns);
+    }
+    if (next.columnWidths) {
+      entry.widths = { before: columnWidths, after: next.columnWidths };
+      setColumnWidths(next.columnWidths);
+    }
+    if (next.views) {
+      const changed = next.views.filter(view => !views.includes(view));
+      if (changed.length > 0) {
+        entry.views = { before: views.filter(view => changed.some(other => other.id === view.id)), after: changed };
+        setViews(next.views);
+      }
+    }
 
-  const headers = ['Job Request', 'Submitted', 'Status', 'Submitter', 'URL', 'Assigned', 'Priority', 'Due Date', 'Est. Value'];
-  const fields = ['jobRequest', 'submitted', 'status', 'submitter', 'url', 'assigned', 'priority', 'dueDate', 'estValue'];
+    if (entry.rows.length > 0 || entry.columns || entry.builtInColumns || entry.widths || entry.views) recordHistory(entry);
+  };
+
+  const stepHistory = (direction: 'undo' | 'redo') => {
+    const stack = direction === 'undo' ? history.undo : history.redo;
+    const entry = stack[stack.length - 1];
+    if (!entry) return;
 
-  // Combine base headers with custom columns
-  const allHeaders = [...headers, ...customColumns];
-  const allFields = [...fields, ...customColumns.map(col => col.toLowerCase().replace(/\s+/g, ''))];
+    if (entry.rows.length > 0) setData(prev => applyRowChanges(prev, entry.rows, direction));
+    if (entry.columns) setCustomColumns(direction === 'undo' ? entry.columns.before : entry.columns.after);
+    if (entry.builtInColumns) {
+      setBuiltInColumns(direction === 'undo' ? entry.builtInColumns.before : entry.builtInColumns.after);
+    }
+    if (entry.widths) setColumnWidths(direction === 'undo' ? entry.widths.before : entry.widths.after);
+    if (entry.views) {
+      const restored = direction === 'undo' ? entry.views.before : entry.views.after;
+      setViews(prev => prev.map(view => restored.find(other => other.id === view.id) ?? view));
+    }
+
+    setHistory(prev => direction === 'undo'
+      ? { undo: prev.undo.slice(0, -1), redo: [...prev.redo, entry] }
+      : { undo: [...prev.undo, entry], redo: prev.redo.slice(0, -1) });
+    console.log(`${direction === 'undo' ? 'Undo' : 'Redo'}: ${entry.label}`);
+  };
+
+  const nextUndo = history.undo[history.undo.length - 1];
+  const nextRedo = history.redo[history.redo.length - 1];
+
+  // Text a cell shows: the computed result for formulas, the stored value otherwise
+  const getDisplayValue = useCallback((row: SpreadsheetRow, field: string): string => {
+    const raw = String(row[field] ?? '');
+    if (!isFormula(raw)) return raw;
+    const value = formulaEngine.getValue(row.id, field);
+    return value === undefined ? '' : formatFormulaValue(value);
+  }, [formulaEngine]);
+
+  // Column definitions by field key, used to render and edit typed cells
+  const customColumnByField = useMemo(
+    () => new Map(customColumns.map(col => [col.id, col])),
+    [customColumns]
+  );
 
   // Get cell height based on view mode and content
   const getCellHeight = (content?: string) => {
@@ -165,98 +384,94 @@ export default function SpreadsheetTable({
     }
   };
 
-  // Calculate row height based on longest content in the row
-  const getRowHeight = (row: SpreadsheetRow) => {
-    let maxHeight = cellViewMode === 'compact' ? 32 : cellViewMode === 'expanded' ? 64 : 40;
-    
-    visibleFields.forEach(field => {
-      const content = String(row[field as keyof SpreadsheetRow] || '');
-      if (content.length > 50) {
-        const extraLines = Math.ceil((content.length - 50) / 40);
-        const lineHeight = cellViewMode === 'compact' ? 16 : cellViewMode === 'expanded' ? 20 : 18;
-        const cellHeight = (cellViewMode === 'compact' ? 32 : cellViewMode === 'expanded' ? 64 : 40) + (extraLines * lineHeight);
-        maxHeight = Math.max(maxHeight, cellHeight);
-      }
-    });
-    
-    return `h-[${maxHeight}px]`;
-  };
+  // Filtering, sorting and search run off the main thread; the table shows the row order
+  // and matches of the latest result. The first render filters and sorts in place so the
+  // grid doesn't start out empty
+  const [pipelineResult, setPipelineResult] = useState<Omit<RowQueryResult, 'requestId'>>(() => ({
+    rowIds: filterAndSortRows(data, { filter, sortKeys }, customColumns).map(row => row.id),
+    matches: [],
+    matchCount: 0,
+  }));
+  const pipelineRef = useRef<RowPipeline | null>(null);
+
+  useEffect(() => {
+    const pipeline = createRowPipeline(setPipelineResult);
+    pipelineRef.current = pipeline;
+    return () => {
+      pipeline.dispose();
+      pipelineRef.current = null;
+    };
+  }, []);
+
+  // Text a cell shows, which is what search matches against
+  const getSearchText = useCallback((row: SpreadsheetRow, field: string): string => {
+    const rawValue = String(row[field] ?? '');
+    const column = customColumnByField.get(field);
+    const displayValue = isFormula(rawValue) ? getDisplayValue(row, field) : rawValue;
+    return column ? formatCellValue(column, displayValue) : displayValue;
+  }, [customColumnByField, getDisplayValue]);
+
+  // Only rows that changed since the last sync are sent to the pipeline
+  useEffect(() => {
+    pipelineRef.current?.sync(data, customColumns, builtInColumns, getSearchText);
+  }, [data, customColumns, builtInColumns, getSearchText]);
 
-  // Filter and sort data based on props
+  // Rows come from the current data, so edits show before the pipeline answers
   const processedData = useMemo(() => {
-    let filtered = [...data];
-    
-    // Apply filter
-    if (filterField && filterValue) {
-      filtered = filtered.filter(row => {
-        const cellValue = String(row[filterField as keyof SpreadsheetRow] || '').toLowerCase();
-        
-        if (filterField === 'submitted' || filterField === 'dueDate') {
-          // Date filtering - exact match for now
-          return cellValue === filterValue.toLowerCase();
-        } else {
-          // Text filtering - contains
-          return cellValue.includes(filterValue.toLowerCase());
-        }
-      });
-    }
-    
-    // Apply sort
-    if (sortField && sortOrder) {
-      filtered.sort((a, b) => {
-        let aValue: string | number | Date = a[sortField as keyof SpreadsheetRow] as string;
-        let bValue: string | number | Date = b[sortField as keyof SpreadsheetRow] as string;
-        
-        // Handle different data types
-        if (sortField === 'submitted' || sortField === 'dueDate') {
-          // Date sorting
-          aValue = new Date(aValue.split('-').reverse().join('-'));
-          bValue = new Date(bValue.split('-').reverse().join('-'));
-        } else if (sortField === 'estValue') {
-          // Numeric sorting (remove commas)
-          aValue = parseFloat(String(aValue).replace(/,/g, '')) || 0;
-          bValue = parseFloat(String(bValue).replace(/,/g, '')) || 0;
-        } else if (sortField === 'priority') {
-          // Priority sorting (High > Medium > Low)
-          const priorityOrder = { 'High': 3, 'Medium': 2, 'Low': 1 };
-          aValue = priorityOrder[aValue as Priority] || 0;
-          bValue = priorityOrder[bValue as Priority] || 0;
-        } else {
-          // String sorting
-          aValue = String(aValue).toLowerCase();
-          bValue = String(bValue).toLowerCase();
-        }
-        
-        if (aValue < bValue) return sortOrder === 'asc' ? -1 : 1;
-        if (aValue > bValue) return sortOrder === 'asc' ? 1 : -1;
-        return 0;
-      });
-    }
-    
-    return filtered;
-  }, [data, filterField, filterValue, sortField, sortOrder]);
+    const rowsById = new Map(data.map(row => [row.id, row]));
+    return pipelineResult.rowIds.flatMap(id => rowsById.get(id) ?? []);
+  }, [data, pipelineResult.rowIds]);
+
+  const filterSummary = useMemo(
+    () => describeFilter(filter, getFilterFields(customColumns, builtInColumns)),
+    [filter, customColumns, builtInColumns]
+  );
+
+  const matchedFieldsByRow = useMemo(
+    () => new Map(pipelineResult.matches.map(match => [match.rowId, new Set(match.fields)])),
+    [pipelineResult.matches]
+  );
 
   // Check if a cell matches the search term
-  const cellMatchesSearch = useCallback((row: SpreadsheetRow, fieldName: string): boolean => {
-    if (!searchTerm.trim()) return false;
-    
-    const cellValue = String(row[fieldName as keyof SpreadsheetRow] || '').toLowerCase();
-    return cellValue.includes(searchTerm.toLowerCase());
-  }, [searchTerm]);
+  const cellMatchesSearch = useCallback(
+    (row: SpreadsheetRow, fieldName: string): boolean => matchedFieldsByRow.get(row.id)?.has(fieldName) ?? false,
+    [matchedFieldsByRow]
+  );
+
+  // A search with a syntax error, such as one still being typed, leaves the last search that
+  // parsed in effect instead of matching nothing and emptying a grid showing only matches
+  const searchError = useMemo(
+    () => parseSearchQuery(searchTerm, getFilterFields(customColumns, builtInColumns)).error,
+    [searchTerm, customColumns, builtInColumns]
+  );
+  const [lastValidSearchTerm, setLastValidSearchTerm] = useState('');
+  if (!searchError && lastValidSearchTerm !== searchTerm) setLastValidSearchTerm(searchTerm);
+  const appliedSearchTerm = searchError ? lastValidSearchTerm : searchTerm;
+
+  // Words and phrases the search looks for, highlighted inside matching cells
+  const highlightPattern = useMemo(() => {
+    const { query } = parseSearchQuery(appliedSearchTerm, getFilterFields(customColumns, builtInColumns));
+    const terms = query ? getHighlightTerms(query).filter(term => term.trim()) : [];
+    if (terms.length === 0) return null;
+    const alternatives = terms
+      .sort((a, b) => b.length - a.length)
+      .map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    return new RegExp(`(${alternatives.join('|')})`, 'gi');
+  }, [appliedSearchTerm, customColumns, builtInColumns]);
 
   // Highlight matching text in a string
-  const highlightText = (text: string, searchTerm: string): React.ReactElement => {
-    if (!searchTerm.trim()) {
+  const highlightText = (text: string): React.ReactElement => {
+    if (!highlightPattern) {
       return <span>{text}</span>;
     }
 
-    const regex = new RegExp(`(${searchTerm.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')})`, 'gi');
-    const parts = text.split(regex);
+    // Splitting on a capturing group puts the matches at the odd indexes
+    const parts = text.split(highlightPattern);
     
     return (
       <span>
         {parts.map((part, index) => 
-          regex.test(part) ? (
+          index % 2 === 1 ? (
             <span key={index} className="bg-yellow-300 text-yellow-900 font-medium px-0.5 rounded">
               {part}
             </span>
@@ -268,30 +483,177 @@ export default function SpreadsheetTable({
     );
   };
 
-  // Filter visible headers based on hidden fields
-  const visibleHeaders = allHeaders.filter((_, index) => {
-    const fieldName = allFields[index];
-    return !hiddenFields.includes(fieldName);
-  });
+  // Visible fields in the view's column order, without the hidden ones
+  const visibleFields = useMemo(
+    () => orderFields(allFields, columnOrder).filter(field => !hiddenFields.includes(field)),
+    [allFields, columnOrder, hiddenFields]
+  );
 
-  const visibleFields = allFields.filter(field => !hiddenFields.includes(field));
+  const visibleHeaders = useMemo(
+    () => visibleFields.map(field => allHeaders[allFields.indexOf(field)]),
+    [visibleFields, allHeaders, allFields]
+  );
+
+  // Re-run the pipeline whenever the rows or what is asked of them change
+  useEffect(() => {
+    pipelineRef.current?.query({ filter, sortKeys, searchTerm: appliedSearchTerm, fields: visibleFields, matchingRowsOnly });
+  }, [data, customColumns, builtInColumns, filter, sortKeys, appliedSearchTerm, visibleFields, matchingRowsOnly]);
+
+  // Widths and column inserts use the workbook column index, which stays the same
+  // whatever order or hidden fields a view has
+  const toWorkbookIndex = (colIndex: number) => allFields.indexOf(visibleFields[colIndex]);
+  // The width a column renders at, which the virtualization offsets and frozen columns also use
+  const getColumnWidth = (colIndex: number) => clampColumnWidth(columnWidths[toWorkbookIndex(colIndex)]);
+
+  // Virtualization: only the rows and columns inside the viewport are rendered, and
+  // spacers sized from the running offsets stand in for the rest
+  const rowHeights = useMemo(
+    () => processedData.map(row => getRowHeight(row, visibleFields, cellViewMode)),
+    [processedData, visibleFields, cellViewMode]
+  );
+  const rowOffsets = useMemo(() => getOffsets(rowHeights), [rowHeights]);
+  const rowIndexById = useMemo(
+    () => new Map(processedData.map((row, index) => [row.id, index])),
+    [processedData]
+  );
+  const colOffsets = useMemo(
+    () => getOffsets(visibleFields.map(field => clampColumnWidth(columnWidths[allFields.indexOf(field)]))),
+    [visibleFields, allFields, columnWidths]
+  );
+  const visibleRows = getVisibleRange(rowOffsets, viewport.top, viewport.height - viewport.headerHeight, 8);
+  const visibleCols = getVisibleRange(colOffsets, viewport.left, viewport.width - viewport.rowHeaderWidth, 2);
+
+  // Frozen rows and columns are always rendered and stick below the header and right of the
+  // row numbers. They follow the leading spacers, which always end above or left of where
+  // they stick, so the scrolled rows and columns after them still land in their own places
+  const frozenRowCount = Math.min(frozenRows, processedData.length);
+  const frozenColumnCount = Math.min(frozenColumns, visibleFields.length);
+  const scrolledRows = { start: Math.max(visibleRows.start, frozenRowCount), end: Math.max(visibleRows.end, frozenRowCount) };
+  const scrolledCols = { start: Math.max(visibleCols.start, frozenColumnCount), end: Math.max(visibleCols.end, frozenColumnCount) };
+  const renderedRows = [
+    ...Array.from({ length: frozenRowCount }, (_, i) => i),
+    ...Array.from({ length: scrolledRows.end - scrolledRows.start }, (_, i) => scrolledRows.start + i),
+  ];
+  const renderedCols = [
+    ...Array.from({ length: frozenColumnCount }, (_, i) => i),
+    ...Array.from({ length: scrolledCols.end - scrolledCols.start }, (_, i) => scrolledCols.start + i),
+  ];
+  const leadingRowsHeight = rowOffsets[scrolledRows.start] - rowOffsets[frozenRowCount];
+  const trailingRowsHeight = rowOffsets[processedData.length] - rowOffsets[scrolledRows.end];
+  const leadingColumnsWidth = colOffsets[scrolledCols.start] - colOffsets[frozenColumnCount];
+  const trailingColumnsWidth = colOffsets[colOffsets.length - 1] - colOffsets[scrolledCols.end];
+
+  // Frozen columns stick right of the row numbers, above the columns scrolling under them
+  const getFrozenColumnClass = (colIndex: number, zIndex: string) =>
+    colIndex >= frozenColumnCount ? 'relative'
+      : `sticky ${zIndex} ${colIndex === frozenColumnCount - 1 ? FROZEN_COLUMN_EDGE : ''}`;
+  const getFrozenColumnStyle = (colIndex: number) =>
+    colIndex < frozenColumnCount ? { left: viewport.rowHeaderWidth + colOffsets[colIndex] } : {};
+
+  const updateViewport = useCallback(() => {
+    const container = scrollRef.current;
+    if (!container) return;
+    setViewport({
+      top: container.scrollTop,
+      left: container.scrollLeft,
+      width: container.clientWidth,
+      height: container.clientHeight,
+      headerHeight: headerRowRef.current?.offsetHeight ?? 40,
+      rowHeaderWidth: cornerCellRef.current?.offsetWidth ?? 64,
+    });
+  }, []);
+
+  // Measure before paint so the first frame already shows the right rows
+  useLayoutEffect(() => {
+    updateViewport();
+    const container = scrollRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(updateViewport);
+    observer.observe(container);
+    return () => {
+      observer.disconnect();
+      if (scrollFrameRef.current !== null) cancelAnimationFrame(scrollFrameRef.current);
+    };
+  }, [updateViewport, cellViewMode]);
+
+  // Re-render at most once per frame while scrolling
+  const handleScroll = () => {
+    if (scrollFrameRef.current !== null) return;
+    scrollFrameRef.current = requestAnimationFrame(() => {
+      scrollFrameRef.current = null;
+      updateViewport();
+    });
+  };
+
+  // Keep the active cell on screen as the keyboard moves it. The cell may not exist yet,
+  // e.g. a row added by moving down from the last one, so the request waits for it
+  useEffect(() => {
+    const container = scrollRef.current;
+    const focus = rangeEnd ?? selectedCell;
+    if (!revealPendingRef.current || !container || !focus) return;
+    const rowIndex = rowIndexById.get(focus.row);
+    if (rowIndex === undefined || focus.col >= colOffsets.length - 1) return;
+    revealPendingRef.current = false;
+
+    // Frozen cells are always in view; the others must clear the frozen rows and columns
+    const frozenHeight = rowOffsets[frozenRowCount];
+    const frozenWidth = colOffsets[frozenColumnCount];
+    const top = rowIndex < frozenRowCount ? null : getScrollToReveal(
+      rowOffsets[rowIndex] - frozenHeight,
+      rowOffsets[rowIndex + 1] - frozenHeight,
+      container.scrollTop,
+      container.clientHeight - viewport.headerHeight - frozenHeight
+    );
+    const left = focus.col < frozenColumnCount ? null : getScrollToReveal(
+      colOffsets[focus.col] - frozenWidth,
+      colOffsets[focus.col + 1] - frozenWidth,
+      container.scrollLeft,
+      container.clientWidth - viewport.rowHeaderWidth - frozenWidth
+    );
+    if (top !== null) container.scrollTop = top;
+    if (left !== null) container.scrollLeft = left;
+  }, [selectedCell, rangeEnd, rowIndexById, rowOffsets, colOffsets, frozenRowCount, frozenColumnCount, viewport.headerHeight, viewport.rowHeaderWidth]);
+
+  // Empty cells standing in for the columns left and right of the rendered ones
+  const renderColumnSpacer = (width: number) => width > 0 && (
+    <td aria-hidden className="p-0 border-0" style={{ width, minWidth: width, maxWidth: width }} />
+  );
+
+  // Report the selection by field name so toolbar actions can use it
+  useEffect(() => {
+    if (!onSelectionChange) return;
+
+    const cellIds = selectedCells.size > 0
+      ? Array.from(selectedCells)
+      : selectedCell ? [toCellId(selectedCell)] : [];
+
+    onSelectionChange(cellIds.map(cellId => {
+      const { row, col } = parseCellId(cellId);
+      return { rowId: row, field: visibleFields[col] };
+    }).filter(cell => cell.field !== undefined));
+  }, [selectedCell, selectedCells, visibleFields, onSelectionChange]);
 
   const handleUrlClick = (url: string) => {
-    window.open(`https://${url}`, '_blank');
+    window.open(/^https?:\/\//i.test(url) ? url : `https://${url}`, '_blank');
     console.log(`URL clicked: ${url}`);
   };
 
 
 
   const handleCellDoubleClick = (rowId: number, colIndex: number) => {
+    // Checkboxes toggle on click and have no editor
+    if (customColumnByField.get(visibleFields[colIndex])?.type === 'checkbox') return;
+
     const cellValue = getCellValue(rowId, colIndex);
     setEditingCell({row: rowId, col: colIndex});
     setEditValue(cellValue);
     setSelectedCell({row: rowId, col: colIndex});
   };
 
+  // Called for every rendered cell, so the row is found through the index rather than a scan
   const getCellValue = (rowId: number, colIndex: number): string => {
-    const dataRow = processedData.find(row => row.id === rowId);
+    const rowIndex = rowIndexById.get(rowId);
+    const dataRow = rowIndex === undefined ? undefined : processedData[rowIndex];
     if (!dataRow) return '';
     
     const field = visibleFields[colIndex] as keyof SpreadsheetRow;
@@ -300,14 +662,15 @@ export default function SpreadsheetTable({
 
   const setCellValue = (rowId: number, colIndex: number, value: string) => {
     const field = visibleFields[colIndex] as keyof SpreadsheetRow;
+    // Recalculate only the formulas that depend on this cell
+    formulaEngine.setCell(rowId, visibleFields[colIndex], value);
     
-    setData(prevData => 
-      prevData.map(row => 
-        row.id === rowId ? { ...row, [field]: value } : row
-      )
+    const nextRows = data.map(row => 
+      row.id === rowId ? { ...row, [field]: value } : row
     );
     
     // Check if we need to adjust column width for long content
+    let nextWidths: number[] | undefined;
     if (value.length > 30) { // Threshold for width adjustment
       const charWidth = 8;
       const padding = 24;
@@ -318,21 +681,29 @@ export default function SpreadsheetTable({
         maxWidth
       );
       
-      setColumnWidths(prev => {
-        const currentWidth = prev[colIndex] || 120;
-        if (newWidth > currentWidth) {
-          const newWidths = [...prev];
-          newWidths[colIndex] = newWidth;
-          return newWidths;
-        }
-        return prev;
-      });
+      const currentWidth = getColumnWidth(colIndex);
+      if (newWidth > currentWidth) {
+        nextWidths = [...columnWidths];
+        nextWidths[toWorkbookIndex(colIndex)] = newWidth;
+      }
     }
+
+    commitChange(`Edit ${visibleHeaders[colIndex]}`, { rows: nextRows, columnWidths: nextWidths });
   };
 
   const saveEdit = () => {
     if (editingCell) {
-      setCellValue(editingCell.row, editingCell.col, editValue);
+      const column = customColumnByField.get(visibleFields[editingCell.col]);
+      if (column && !isFormula(editValue)) {
+        const { value, valid } = coerceCustomValue(column, editValue);
+        if (!valid) {
+          alert(`"${editValue}" is not a valid ${column.type} value for ${column.name}`);
+          return;
+        }
+        setCellValue(editingCell.row, editingCell.col, value);
+      } else {
+        setCellValue(editingCell.row, editingCell.col, editValue);
+      }
       setEditingCell(null);
       setEditValue('');
     }
@@ -348,27 +719,9 @@ export default function SpreadsheetTable({
   };
 
   const addRow = () => {
-    const newId = Math.max(...data.map(row => row.id)) + 1;
-    const newRow: SpreadsheetRow = {
-      id: newId,
-      jobRequest: '',
-      submitted: new Date().toLocaleDateString('en-GB'),
-      status: 'need to start',
-      submitter: '',
-      url: '',
-      assigned: '',
-      priority: 'Medium',
-      dueDate: '',
-      estValue: ''
-    };
+    const newRow = createEmptyRow(getNextRowId(data), customColumns);
     
-    // Add empty values for custom columns
-    customColumns.forEach(col => {
-      const fieldName = col.toLowerCase().replace(/\s+/g, '');
-      (newRow as Record<string, string>)[fieldName] = '';
-    });
-    
-    setData([...data, newRow]);
+    commitChange('Add row', { rows: [...data, newRow] });
     console.log('New row added');
   };
 
@@ -381,21 +734,26 @@ export default function SpreadsheetTable({
     
     const newWidths: number[] = [];
     
-    visibleHeaders.forEach((header, colIndex) => {
+    allHeaders.forEach((header, colIndex) => {
       let maxContentLength = header.length; // Start with header length
       
       // Check all rows for this column's content length
       if (processedData.length > 0) {
         processedData.forEach(row => {
-          const fieldName = visibleFields[colIndex];
-          const cellValue = String(row[fieldName as keyof SpreadsheetRow] || '');
+          const fieldName = allFields[colIndex];
+          const cellValue = getDisplayValue(row, fieldName);
           
-          // For status and priority, use formatted display text
+          // For status, priority and typed custom columns, use formatted display text
           let displayText = cellValue;
+          const customColumn = customColumnByField.get(fieldName);
           if (fieldName === 'status') {
             displayText = formatStatus(row.status);
           } else if (fieldName === 'priority') {
             displayText = row.priority;
+          } else if (customColumn) {
+            displayText = formatCellValue(customColumn, cellValue);
+            // Long text wraps, so only the first line affects the width
+            if (customColumn.type === 'longText') displayText = displayText.split('\n')[0];
           }
           
           maxContentLength = Math.max(maxContentLength, displayText.length);
@@ -412,67 +770,86 @@ export default function SpreadsheetTable({
     });
     
     return newWidths;
-  }, [visibleHeaders, visibleFields, processedData]);
+  }, [allHeaders, allFields, processedData, customColumnByField, getDisplayValue]);
 
-  // Initialize smart column widths
+  // Initialize smart column widths. Measuring reads every row, so it only happens when the
+  // widths are actually replaced, not on every data change
   useEffect(() => {
-    if (visibleHeaders.length > 0) {
-      const smartWidths = calculateSmartColumnWidths();
+    if (allHeaders.length > 0) {
       setColumnWidths(prev => {
         // Always update if we don't have enough widths or if it's the initial load
-        if (prev.length !== visibleHeaders.length) {
-          return smartWidths;
+        if (prev.length !== allHeaders.length) {
+          return calculateSmartColumnWidths();
         }
         // Update if all widths are still default (160) or if we have content to measure
         if (prev.every(w => w === 160 || w === 120) && processedData.length > 0) {
-          return smartWidths;
+          return calculateSmartColumnWidths();
         }
         return prev;
       });
     }
-  }, [visibleHeaders, processedData, calculateSmartColumnWidths]);
+  }, [allHeaders, processedData, calculateSmartColumnWidths, setColumnWidths]);
 
-  // Update column widths when new columns are added
+  // Open the add column dialog; the column is created in insertColumn
   const addColumn = () => {
-    const columnName = prompt('Enter new column name:');
-    if (columnName && columnName.trim()) {
-      const newColumnName = columnName.trim();
-      setCustomColumns([...customColumns, newColumnName]);
-      
-      // Add the new column to all existing rows with empty values
-      const fieldName = newColumnName.toLowerCase().replace(/\s+/g, '');
-      setData(prevData => 
-        prevData.map(row => ({
-          ...row,
-          [fieldName]: ''
-        }))
-      );
-      
-      // Calculate smart width for the new column (header length + padding)
-      const charWidth = 8;
-      const padding = 24;
-      const minWidth = 120;
-      const newColumnWidth = Math.max(minWidth, (newColumnName.length * charWidth) + padding);
-      
-      // Extend column widths array with smart width
-      setColumnWidths(prev => [...prev, newColumnWidth]);
-      
-      console.log(`New column "${newColumnName}" added with width ${newColumnWidth}px`);
+    setColumnDialog({});
+  };
+
+  // Give the new column its id and add it with its values and width. Names must stay unique,
+  // and ids avoid every field on the sheet, including those deleted built-in columns keep on each row
+  const insertColumn = (definition: Omit<CustomColumn, 'id'>, position?: number) => {
+    if (isColumnNameTaken(definition.name, columns)) {
+      alert(`A column named "${definition.name}" already exists`);
+      return;
     }
+    const column: CustomColumn = { ...definition, id: createColumnId(getWorkbookFields(customColumns)) };
+
+    const newCustomColumns = [...customColumns];
+    if (position !== undefined && position < customColumns.length) {
+      newCustomColumns.splice(position, 0, column);
+    } else {
+      newCustomColumns.push(column);
+    }
+
+    // Add the new column to all existing rows with empty values
+    const nextRows = data.map(row => ({
+      ...row,
+      [column.id]: ''
+    }));
+
+    const newColumnWidth = getNewColumnWidth(column.name);
+
+    // Extend column widths array with smart width
+    const widthIndex = builtInColumns.length + (position ?? customColumns.length);
+    const newWidths = [...columnWidths];
+    if (widthIndex < columnWidths.length) {
+      newWidths.splice(widthIndex, 0, newColumnWidth);
+    } else {
+      newWidths.push(newColumnWidth);
+    }
+
+    commitChange(`Add column ${column.name}`, {
+      rows: nextRows,
+      customColumns: newCustomColumns,
+      columnWidths: newWidths,
+    });
+    setColumnDialog(null);
+    console.log(`New ${column.type} column "${column.name}" added with width ${newColumnWidth}px`);
   };
 
   const deleteRow = (rowId: number) => {
-    setData(data.filter(row => row.id !== rowId));
+    commitChange(`Delete row ${rowId}`, { rows: data.filter(row => row.id !== rowId) });
     console.log(`Row ${rowId} deleted`);
   };
 
   const startColumnResize = (colIndex: number, e: React.MouseEvent) => {
     e.preventDefault();
     e.stopPropagation();
-    setIsResizing({type: 'col', index: colIndex});
+    setIsResizing({type: 'col', index: toWorkbookIndex(colIndex)});
     resizeRef.current = {
       startX: e.clientX,
-      startSize: columnWidths[colIndex] || 160
+      startSize: getColumnWidth(colIndex),
+      startWidths: columnWidths
     };
     
     // Add cursor style to body
@@ -487,23 +864,32 @@ export default function SpreadsheetTable({
     const {startX, startSize} = resizeRef.current;
     
     const deltaX = e.clientX - startX;
-    const newWidth = Math.max(100, startSize + deltaX);
+    const newWidth = clampColumnWidth(startSize + deltaX);
     
     setColumnWidths(prev => {
       const newWidths = [...prev];
       newWidths[index] = newWidth;
       return newWidths;
     });
-  }, [isResizing]);
+  }, [isResizing, setColumnWidths]);
 
   const handleMouseUp = useCallback(() => {
     if (isResizing) {
     setIsResizing(null);
+      // The whole drag is one undo step, and a drag that ends at the starting width is none
+      const { startWidths } = resizeRef.current;
+      if (columnWidths[isResizing.index] !== startWidths[isResizing.index]) {
+        recordHistory({
+          label: 'Resize column',
+          rows: [],
+          widths: { before: startWidths, after: columnWidths },
+        });
+      }
       // Reset cursor
       document.body.style.cursor = '';
       document.body.style.userSelect = '';
     }
-  }, [isResizing]);
+  }, [isResizing, columnWidths, recordHistory]);
 
   useEffect(() => {
     if (isResizing) {
@@ -559,12 +945,252 @@ export default function SpreadsheetTable({
     }
   };
 
+  // Pill colours for select options, picked by option position
+  const optionColors = [
+    'bg-blue-100 text-blue-800 border-blue-200',
+    'bg-green-100 text-green-800 border-green-200',
+    'bg-amber-100 text-amber-800 border-amber-200',
+    'bg-purple-100 text-purple-800 border-purple-200',
+    'bg-pink-100 text-pink-800 border-pink-200',
+    'bg-teal-100 text-teal-800 border-teal-200',
+  ];
+
+  const getOptionColor = (column: CustomColumn, option: string) => {
+    const index = column.options?.indexOf(option) ?? -1;
+    return index >= 0 ? optionColors[index % optionColors.length] : 'bg-gray-100 text-gray-800 border-gray-200';
+  };
+
+  const getInitials = (name: string) =>
+    name.split(/\s+/).filter(Boolean).slice(0, 2).map(part => part[0].toUpperCase()).join('');
+
+  // Names already used in the sheet, suggested when editing person columns
+  const knownPeople = useMemo(() => {
+    const people = new Set<string>();
+    const personFields = customColumns
+      .filter(col => col.type === 'person')
+      .map(col => col.id);
+    data.forEach(row => {
+      [row.submitter, row.assigned, ...personFields.map(field => String(row[field] ?? ''))].forEach(name => {
+        if (name) people.add(name);
+      });
+    });
+    return Array.from(people).sort();
+  }, [data, customColumns]);
+
+  const renderCustomEditor = (column: CustomColumn) => {
+    const editorClassName = `w-full h-full px-2 border-2 border-blue-500 outline-none ${getTextSize()} bg-white rounded`;
+
+    switch (column.type) {
+      case 'number':
+      case 'currency':
+        return (
+          <input
+            type="text"
+            inputMode="decimal"
+            value={editValue}
+            onChange={(e) => setEditValue(e.target.value)}
+            onBlur={saveEdit}
+            onKeyDown={handleKeyDown}
+            className={`${editorClassName} text-right`}
+            autoFocus
+          />
+        );
+      case 'date':
+        return (
+          <input
+            type="date"
+            value={toDateInputValue(editValue)}
+            onChange={(e) => setEditValue(fromDateInputValue(e.target.value))}
+            onBlur={saveEdit}
+            onKeyDown={handleKeyDown}
+            className={editorClassName}
+            autoFocus
+          />
+        );
+      case 'select':
+        return (
+          <select
+            value={editValue}
+            onChange={(e) => setEditValue(e.target.value)}
+            onBlur={saveEdit}
+            onKeyDown={handleKeyDown}
+            className={editorClassName}
+            autoFocus
+          >
+            <option value="">—</option>
+            {column.options?.map(option => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+        );
+      case 'multiSelect':
+        return (
+          <select
+            multiple
+            value={parseTags(editValue)}
+            onChange={(e) => setEditValue(formatTags(Array.from(e.target.selectedOptions, option => option.value)))}
+            onBlur={saveEdit}
+            onKeyDown={handleKeyDown}
+            size={Math.min(Math.max(column.options?.length ?? 0, 2), 6)}
+            className={`absolute left-0 top-0 z-30 w-full px-2 border-2 border-blue-500 outline-none ${getTextSize()} bg-white rounded shadow-lg`}
+            autoFocus
+          >
+            {column.options?.map(option => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+        );
+      case 'person':
+        return (
+          <>
+            <input
+              type="text"
+              list={`people-${column.id}`}
+              value={editValue}
+              onChange={(e) => setEditValue(e.target.value)}
+              onBlur={saveEdit}
+              onKeyDown={handleKeyDown}
+              className={editorClassName}
+              autoFocus
+            />
+            <datalist id={`people-${column.id}`}>
+              {knownPeople.map(name => (
+                <option key={name} value={name} />
+              ))}
+            </datalist>
+          </>
+        );
+      case 'longText':
+        // Enter saves like other editors; Shift+Enter inserts a line break
+        return (
+          <textarea
+            value={editValue}
+            onChange={(e) => setEditValue(e.target.value)}
+            onBlur={saveEdit}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && e.shiftKey) return;
+              if (e.key === 'Enter') e.preventDefault();
+              handleKeyDown(e);
+            }}
+            rows={4}
+            className={`absolute left-0 top-0 z-30 w-full px-2 py-1 border-2 border-blue-500 outline-none ${getTextSize()} bg-white rounded shadow-lg resize-none`}
+            autoFocus
+          />
+        );
+      default:
+        return (
+          <input
+            type={column.type === 'url' ? 'url' : 'text'}
+            value={editValue}
+            onChange={(e) => setEditValue(e.target.value)}
+            onBlur={saveEdit}
+            onKeyDown={handleKeyDown}
+            className={editorClassName}
+            autoFocus
+          />
+        );
+    }
+  };
+
+  const renderCustomValue = (
+    column: CustomColumn,
+    rowId: number,
+    colIndex: number,
+    cellValue: string,
+    hasSearchMatch: boolean
+  ) => {
+    const displayText = formatCellValue(column, cellValue);
+    const matchClassName = hasSearchMatch ? 'ring-2 ring-yellow-400' : '';
+
+    switch (column.type) {
+      case 'checkbox':
+        return (
+          <div className={`w-full flex justify-center ${getCellPadding()}`}>
+            <input
+              type="checkbox"
+              checked={isChecked(cellValue)}
+              onChange={(e) => setCellValue(rowId, colIndex, e.target.checked ? 'true' : '')}
+              className="rounded text-blue-600 cursor-pointer"
+            />
+          </div>
+        );
+      case 'select':
+        if (!cellValue) return null;
+        return (
+          <div className="w-full min-w-0">
+            <span className={`inline-block max-w-full truncate px-2 py-0.5 ${getTextSize()} font-medium rounded-full border ${getOptionColor(column, cellValue)} ${matchClassName}`}>
+              {hasSearchMatch ? highlightText(cellValue) : cellValue}
+            </span>
+          </div>
+        );
+      case 'multiSelect':
+        return (
+          <div className={`w-full flex gap-1 min-w-0 ${cellViewMode === 'expanded' ? 'flex-wrap' : 'overflow-hidden'}`} title={displayText}>
+            {parseTags(cellValue).map(tag => (
+              <span key={tag} className={`px-2 py-0.5 text-xs font-medium rounded-full border whitespace-nowrap ${getOptionColor(column, tag)} ${matchClassName}`}>
+                {hasSearchMatch ? highlightText(tag) : tag}
+              </span>
+            ))}
+          </div>
+        );
+      case 'url':
+        return (
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              handleUrlClick(cellValue);
+            }}
+            className={`text-blue-600 hover:text-blue-800 underline truncate w-full text-left ${getTextSize()} ${
+              hasSearchMatch ? 'bg-yellow-100 rounded px-1' : ''
+            }`}
+          >
+            {hasSearchMatch ? highlightText(cellValue) : cellValue}
+          </button>
+        );
+      case 'person':
+        if (!cellValue) return null;
+        return (
+          <div className={`flex items-center space-x-2 min-w-0 ${getTextSize()} ${hasSearchMatch ? 'bg-yellow-100 rounded' : ''}`}>
+            <span className="flex-shrink-0 w-6 h-6 rounded-full bg-indigo-100 text-indigo-700 text-xs font-semibold flex items-center justify-center">
+              {getInitials(cellValue)}
+            </span>
+            <span className="truncate">{hasSearchMatch ? highlightText(cellValue) : cellValue}</span>
+          </div>
+        );
+      default:
+        // Numbers, currency and dates
+        return (
+          <div
+            className={`truncate w-full ${column.type === 'date' ? '' : 'text-right tabular-nums'} ${getTextSize()} ${getCellPadding()} ${hasSearchMatch ? 'bg-yellow-100 rounded' : ''}`}
+            title={displayText}
+          >
+            {hasSearchMatch ? highlightText(displayText) : displayText}
+          </div>
+        );
+    }
+  };
+
   const renderCell = (row: SpreadsheetRow, colIndex: number) => {
     const fieldName = visibleFields[colIndex];
     const isEditing = editingCell?.row === row.id && editingCell?.col === colIndex;
     const hasSearchMatch = cellMatchesSearch(row, fieldName);
     
     if (isEditing) {
+      // Formulas are edited as text whatever the column type
+      if (isFormula(editValue)) {
+        return (
+          <input
+            type="text"
+            value={editValue}
+            onChange={(e) => setEditValue(e.target.value)}
+            onBlur={saveEdit}
+            onKeyDown={handleKeyDown}
+            className={`w-full h-full px-2 border-2 border-blue-500 outline-none ${getTextSize()} bg-white rounded font-mono`}
+            autoFocus
+          />
+        );
+      }
+
       // Status dropdown when editing
       if (fieldName === 'status') {
         return (
@@ -602,6 +1228,11 @@ export default function SpreadsheetTable({
         );
       }
       
+      const customColumn = customColumnByField.get(fieldName);
+      if (customColumn) {
+        return renderCustomEditor(customColumn);
+      }
+
       // Regular text input for other fields
       return (
         <input
@@ -617,6 +1248,28 @@ export default function SpreadsheetTable({
     }
 
     const cellValue = getCellValue(row.id, colIndex);
+
+    // Formula cells show their computed value; the formula itself is in the tooltip and editor
+    if (isFormula(cellValue)) {
+      const value = formulaEngine.getValue(row.id, fieldName);
+      const displayText = value === undefined ? '' : formatFormulaValue(value);
+      const isError = value !== undefined && isFormulaError(value);
+      return (
+        <div
+          className={`truncate w-full ${typeof value === 'number' ? 'text-right tabular-nums' : ''} ${getTextSize()} ${getCellPadding()} ${
+            isError ? 'text-red-600 font-medium' : ''
+          } ${hasSearchMatch ? 'bg-yellow-100 rounded' : ''}`}
+          title={cellValue}
+        >
+          {hasSearchMatch ? highlightText(displayText) : displayText}
+        </div>
+      );
+    }
+
+    const customColumn = customColumnByField.get(fieldName);
+    if (customColumn && customColumn.type !== 'text' && customColumn.type !== 'longText') {
+      return renderCustomValue(customColumn, row.id, colIndex, cellValue, hasSearchMatch);
+    }
     
     // Status column
     if (fieldName === 'status') {
@@ -627,7 +1280,7 @@ export default function SpreadsheetTable({
           hasSearchMatch ? 'ring-2 ring-yellow-400' : ''
           } cursor-pointer hover:shadow-sm transition-all duration-200 min-w-0`}>
             <span className="flex-1 truncate">
-          {searchTerm ? highlightText(statusText, searchTerm) : statusText}
+          {hasSearchMatch ? highlightText(statusText) : statusText}
         </span>
             <svg className="w-3 h-3 text-gray-600 ml-2 opacity-60 group-hover:opacity-100 transition-opacity flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
@@ -645,7 +1298,7 @@ export default function SpreadsheetTable({
           hasSearchMatch ? 'ring-2 ring-yellow-400' : ''
           } cursor-pointer hover:shadow-sm transition-all duration-200 min-w-0`}>
             <span className="flex-1 truncate">
-          {searchTerm ? highlightText(row.priority, searchTerm) : row.priority}
+          {hasSearchMatch ? highlightText(row.priority) : row.priority}
         </span>
             <svg className="w-3 h-3 text-gray-600 ml-2 opacity-60 group-hover:opacity-100 transition-opacity flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
@@ -667,43 +1320,73 @@ export default function SpreadsheetTable({
             hasSearchMatch ? 'bg-yellow-100 rounded px-1' : ''
           }`}
         >
-          {searchTerm ? highlightText(row.url, searchTerm) : row.url}
+          {hasSearchMatch ? highlightText(row.url) : row.url}
         </button>
       );
     }
 
+    const isLongText = customColumn?.type === 'longText';
     return (
       <div 
         className={`${cellValue.length > 50 ? 'whitespace-normal break-words' : 'truncate'} ${getTextSize()} ${getCellPadding()} ${hasSearchMatch ? 'bg-yellow-100 rounded' : ''} ${
           cellViewMode === 'expanded' || cellValue.length > 50 ? 'overflow-visible whitespace-normal' : ''
-        }`} 
+        } ${isLongText && cellViewMode === 'expanded' ? 'whitespace-pre-line' : ''}`} 
         title={cellValue}
       >
-        {searchTerm ? highlightText(cellValue, searchTerm) : cellValue}
+        {hasSearchMatch ? highlightText(cellValue) : cellValue}
       </div>
     );
   };
 
-  // Calculate search results count
-  const searchResultsCount = useMemo(() => {
-    if (!searchTerm.trim()) return 0;
-    
-    let count = 0;
-    processedData.forEach(row => {
-      visibleFields.forEach(field => {
-        if (cellMatchesSearch(row, field)) {
-          count++;
-        }
-      });
-    });
-    return count;
-  }, [processedData, visibleFields, searchTerm, cellMatchesSearch]);
+  const searchResultsCount = pipelineResult.matchCount;
+
+  // Matching cells in view order: row by row, left to right
+  const matchCells = useMemo(
+    () => pipelineResult.matches.flatMap(match => match.fields
+      .map(field => ({ row: match.rowId, col: visibleFields.indexOf(field) }))
+      .filter(cell => cell.col !== -1)),
+    [pipelineResult.matches, visibleFields]
+  );
+
+  // Number of the active cell among the matches, for "3 of 17"
+  const activeMatchNumber = selectedCell
+    ? matchCells.findIndex(cell => cell.row === selectedCell.row && cell.col === selectedCell.col) + 1
+    : 0;
 
   // Keyboard shortcuts handler
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      // Don't handle shortcuts when editing
-      if (editingCell) return;
+      // Don't handle shortcuts when editing or while the add column or find dialog is open
+      if (editingCell || columnDialog || showFindReplace) return;
+
+      // Undo/redo, leaving text fields elsewhere on the page their own undo
+      const isTextField = (e.target as HTMLElement).closest?.('input, textarea, select');
+      if (e.ctrlKey && !isTextField && (e.key.toLowerCase() === 'z' || e.key === 'y')) {
+        e.preventDefault();
+        stepHistory(e.shiftKey || e.key === 'y' ? 'redo' : 'undo');
+        return;
+      }
+
+      // Fill down / right
+      if (e.ctrlKey && !e.shiftKey && !isTextField && (e.key === 'd' || e.key === 'r')) {
+        e.preventDefault();
+        fillSelection(e.key === 'd' ? 'down' : 'right');
+        return;
+      }
+
+      // Step through search matches
+      if (e.key === 'F3') {
+        e.preventDefault();
+        stepSearch(e.shiftKey ? 'previous' : 'next');
+        return;
+      }
+
+      // Find and replace
+      if (e.ctrlKey && !e.shiftKey && e.key === 'h') {
+        e.preventDefault();
+        setShowFindReplace(true);
+        return;
+      }
 
       // Handle Ctrl+Shift combinations
       if (e.ctrlKey && e.shiftKey) {
@@ -720,24 +1403,49 @@ export default function SpreadsheetTable({
         return;
       }
 
+      // Alt+Shift+Left/Right moves the active cell's column
+      if (e.altKey && e.shiftKey && selectedCell && (e.key === 'ArrowLeft' || e.key === 'ArrowRight')) {
+        e.preventDefault();
+        const { col } = selectedCell;
+        if (e.key === 'ArrowLeft' && col > 0) moveColumn(col, col - 1);
+        if (e.key === 'ArrowRight' && col < visibleFields.length - 1) moveColumn(col, col + 2);
+        return;
+      }
+
       // Handle navigation and other shortcuts
       if (selectedCell) {
         switch (e.key) {
           case 'ArrowUp':
             e.preventDefault();
-            navigateCell('up');
+            if (e.shiftKey) {
+              extendRange('up');
+            } else {
+              navigateCell('up');
+            }
             break;
           case 'ArrowDown':
             e.preventDefault();
-            navigateCell('down');
+            if (e.shiftKey) {
+              extendRange('down');
+            } else {
+              navigateCell('down');
+            }
             break;
           case 'ArrowLeft':
             e.preventDefault();
-            navigateCell('left');
+            if (e.shiftKey) {
+              extendRange('left');
+            } else {
+              navigateCell('left');
+            }
             break;
           case 'ArrowRight':
             e.preventDefault();
-            navigateCell('right');
+            if (e.shiftKey) {
+              extendRange('right');
+            } else {
+              navigateCell('right');
+            }
             break;
           case 'Delete':
             e.preventDefault();
@@ -745,8 +1453,12 @@ export default function SpreadsheetTable({
               // Shift+Delete: Delete row
               deleteRow(selectedCell.row);
             } else {
-              // Delete: Clear cell
-              clearCell(selectedCell.row, selectedCell.col);
+              // Delete: Clear the selected range, or the active cell
+              if (selectedCells.size > 0) {
+                clearCells(selectedCells);
+              } else {
+                clearCell(selectedCell.row, selectedCell.col);
+              }
             }
             break;
           case 'Enter':
@@ -769,6 +1481,7 @@ export default function SpreadsheetTable({
             e.preventDefault();
             setSelectedCell(null);
             setSelectedCells(new Set());
+            setRangeEnd(null);
             break;
         }
       }
@@ -782,7 +1495,249 @@ export default function SpreadsheetTable({
 
     document.addEventListener('keydown', handleKeyDown);
     return () => document.removeEventListener('keydown', handleKeyDown);
-  }, [selectedCell, editingCell, processedData, visibleFields, data]);
+  }, [selectedCell, selectedCells, rangeEnd, editingCell, columnDialog, showFindReplace, processedData, visibleFields, matchCells, data, history]);
+
+  // Selected cells as a rectangle in view order; cells inside it that are not selected copy as blanks
+  const selectionBlock = useMemo(() => {
+    const cellIds = selectedCells.size > 0
+      ? Array.from(selectedCells)
+      : selectedCell ? [toCellId(selectedCell)] : [];
+    if (cellIds.length === 0) return null;
+
+    const rowIndexById = new Map(processedData.map((row, index) => [row.id, index]));
+    const cells = cellIds.map(parseCellId);
+    const rowIndexes = cells.map(cell => rowIndexById.get(cell.row)).filter(index => index !== undefined);
+    if (rowIndexes.length === 0) return null;
+
+    let [firstRowIndex, lastRowIndex, firstCol, lastCol] = [Infinity, -Infinity, Infinity, -Infinity];
+    rowIndexes.forEach(index => {
+      firstRowIndex = Math.min(firstRowIndex, index);
+      lastRowIndex = Math.max(lastRowIndex, index);
+    });
+    cells.forEach(cell => {
+      firstCol = Math.min(firstCol, cell.col);
+      lastCol = Math.max(lastCol, cell.col);
+    });
+    return {
+      rows: processedData.slice(firstRowIndex, lastRowIndex + 1),
+      firstRowIndex,
+      firstCol,
+      lastCol,
+      cols: Array.from({ length: lastCol - firstCol + 1 }, (_, i) => firstCol + i),
+      cellIds: new Set(cellIds),
+    };
+  }, [selectedCell, selectedCells, processedData]);
+
+  // Allowed values that filling steps through: statuses, priorities and single select options
+  const getFillCycle = (field: string) => {
+    if (field === 'status') return STATUS_VALUES;
+    if (field === 'priority') return PRIORITY_VALUES;
+    const column = customColumnByField.get(field);
+    return column?.type === 'select' ? column.options : undefined;
+  };
+
+  // A filled value as the target column will store it, or null when it does not fit
+  const fitFillValue = (field: string, value: string) => {
+    if (value.trim() === '' || isFormula(value.trim())) return value;
+    if (field === 'status') return coerceStatus(value);
+    if (field === 'priority') return coercePriority(value);
+    const column = customColumnByField.get(field);
+    if (!column) return value;
+    const coerced = coerceCustomValue(column, value);
+    return coerced.valid ? coerced.value : null;
+  };
+
+  // Write filled values line by line: each column when filling down, each row when filling right
+  const fillCells = (lines: { sources: CellPosition[]; targets: CellPosition[] }[]) => {
+    const rowsById = new Map(data.map(row => [row.id, row]));
+    const filledRows = new Map<number, SpreadsheetRow>();
+    const toFillCell = (cell: CellPosition) => ({ row: cell.row, col: allFields.indexOf(visibleFields[cell.col]) });
+    let count = 0;
+
+    lines.forEach(({ sources, targets }) => {
+      if (sources.length === 0 || targets.length === 0) return;
+      const isColumn = [...sources, ...targets].every(cell => cell.col === sources[0].col);
+      const values = fillLine(
+        sources.map(cell => ({ ...toFillCell(cell), value: String(rowsById.get(cell.row)?.[visibleFields[cell.col]] ?? '') })),
+        targets.map(toFillCell),
+        isColumn ? getFillCycle(visibleFields[sources[0].col]) : undefined
+      );
+
+      targets.forEach((cell, i) => {
+        const field = visibleFields[cell.col];
+        const value = fitFillValue(field, values[i]);
+        const row = filledRows.get(cell.row) ?? rowsById.get(cell.row);
+        if (value === null || !row) return;
+        filledRows.set(cell.row, { ...row, [field]: value });
+        count++;
+      });
+    });
+
+    if (count === 0) return;
+    commitChange(`Fill ${count} cell${count === 1 ? '' : 's'}`, {
+      rows: data.map(row => filledRows.get(row.id) ?? row)
+    });
+  };
+
+  // Dragging the fill handle to `target` fills down when it is below the selection, otherwise to the right
+  const getFillPlan = (target: CellPosition) => {
+    if (!selectionBlock) return null;
+    const { rows, firstRowIndex, firstCol, lastCol, cols } = selectionBlock;
+    const lastRowIndex = firstRowIndex + rows.length - 1;
+    const targetRowIndex = processedData.findIndex(row => row.id === target.row);
+    const anchor = { row: rows[0].id, col: firstCol };
+
+    if (targetRowIndex > lastRowIndex) {
+      const targetRows = processedData.slice(lastRowIndex + 1, targetRowIndex + 1);
+      return {
+        lines: cols.map(col => ({
+          sources: rows.map(row => ({ row: row.id, col })),
+          targets: targetRows.map(row => ({ row: row.id, col })),
+        })),
+        anchor,
+        corner: { row: target.row, col: lastCol },
+      };
+    }
+    if (target.col > lastCol) {
+      const targetCols = Array.from({ length: target.col - lastCol }, (_, i) => lastCol + 1 + i);
+      return {
+        lines: rows.map(row => ({
+          sources: cols.map(col => ({ row: row.id, col })),
+          targets: targetCols.map(col => ({ row: row.id, col })),
+        })),
+        anchor,
+        corner: { row: rows[rows.length - 1].id, col: target.col },
+      };
+    }
+    return null;
+  };
+
+  const applyFillPlan = (target: CellPosition) => {
+    const plan = getFillPlan(target);
+    if (!plan) return;
+    fillCells(plan.lines);
+    selectRange(plan.anchor, plan.corner);
+  };
+
+  // Ctrl+D / Ctrl+R: fill the rest of the selection from the filled cells at its top / left,
+  // or from the cell above / to the left when only one row / column is selected
+  const fillSelection = (direction: 'down' | 'right') => {
+    if (!selectionBlock) return;
+    const { rows, firstRowIndex, firstCol, cols } = selectionBlock;
+
+    const rowsById = new Map(rows.map(row => [row.id, row]));
+    const splitLine = (cells: CellPosition[], before: CellPosition | null) => {
+      if (cells.length === 1) return { sources: before ? [before] : [], targets: cells };
+      const firstEmpty = cells.findIndex(cell =>
+        String(rowsById.get(cell.row)?.[visibleFields[cell.col]] ?? '').trim() === ''
+      );
+      const sourceCount = Math.min(Math.max(firstEmpty, 1), cells.length - 1);
+      return { sources: cells.slice(0, sourceCount), targets: cells.slice(sourceCount) };
+    };
+
+    if (direction === 'down') {
+      const above = processedData[firstRowIndex - 1];
+      fillCells(cols.map(col => splitLine(
+        rows.map(row => ({ row: row.id, col })),
+        above ? { row: above.id, col } : null
+      )));
+    } else {
+      fillCells(rows.map(row => splitLine(
+        cols.map(col => ({ row: row.id, col })),
+        firstCol > 0 ? { row: row.id, col: firstCol - 1 } : null
+      )));
+    }
+  };
+
+  // Clipboard copy, cut and paste in the tab-separated format spreadsheets exchange
+  useEffect(() => {
+    const isTableEvent = (e: ClipboardEvent) =>
+      !editingCell && !columnDialog && !(e.target as HTMLElement).closest?.('input, textarea, select');
+
+    const copySelection = (e: ClipboardEvent) => {
+      const block = selectionBlock;
+      if (!block || !e.clipboardData) return null;
+
+      const cells = block.rows.map(row =>
+        visibleFields.slice(block.firstCol, block.lastCol + 1).map((field, offset) =>
+          block.cellIds.has(toCellId({ row: row.id, col: block.firstCol + offset })) ? getDisplayValue(row, field) : ''
+        )
+      );
+      e.preventDefault();
+      e.clipboardData.setData('text/plain', toClipboardText(cells));
+      e.clipboardData.setData('text/html', toClipboardHtml(cells));
+      return block;
+    };
+
+    const handleCopy = (e: ClipboardEvent) => {
+      if (isTableEvent(e)) copySelection(e);
+    };
+
+    const handleCut = (e: ClipboardEvent) => {
+      if (!isTableEvent(e)) return;
+      const block = copySelection(e);
+      if (!block) return;
+
+      clearCells(block.cellIds, 'Cut');
+    };
+
+    const handlePaste = (e: ClipboardEvent) => {
+      if (!isTableEvent(e)) return;
+      const block = selectionBlock;
+      const text = e.clipboardData?.getData('text/plain');
+      if (!block || !text) return;
+
+      const pasted = parseClipboardText(text);
+      if (pasted.length === 0) return;
+      e.preventDefault();
+
+      // Paste from the selected cell, or the top-left corner of a multi-cell selection
+      const anchorRowIndex = selectedCell && selectedCells.size === 0
+        ? processedData.findIndex(row => row.id === selectedCell.row)
+        : block.firstRowIndex;
+      const anchorCol = selectedCell && selectedCells.size === 0 ? selectedCell.col : block.firstCol;
+
+      const result = pasteCells(data, customColumns, pasted, {
+        rowIds: processedData.slice(anchorRowIndex).map(row => row.id),
+        fields: visibleFields.slice(anchorCol),
+      });
+      // Columns the paste adds come last in the workbook, so their widths are appended in the
+      // same step. On screen they go right after the last visible column, where the values
+      // beyond it were pasted, whatever the view's column order and hidden columns
+      const addedColumns = result.customColumns.slice(customColumns.length);
+      let nextViews: SavedView[] | undefined;
+      if (addedColumns.length > 0) {
+        const order = orderFields(allFields, columnOrder);
+        order.splice(order.indexOf(visibleFields[visibleFields.length - 1]) + 1, 0, ...addedColumns.map(col => col.id));
+        nextViews = views.map(view => (view.id === activeViewId ? { ...view, columnOrder: order } : view));
+      }
+      commitChange(`Paste ${result.pastedCount} cell${result.pastedCount === 1 ? '' : 's'}`, {
+        rows: result.rows,
+        customColumns: addedColumns.length > 0 ? result.customColumns : undefined,
+        columnWidths: addedColumns.length > 0
+          ? [...columnWidths, ...addedColumns.map(col => getNewColumnWidth(col.name))]
+          : undefined,
+        views: nextViews,
+      });
+
+      if (result.issues.length > 0) {
+        const lines = result.issues.slice(0, 10).map(issue =>
+          `Row ${issue.rowId}, ${issue.column}: "${issue.value}" ${issue.message}`
+        );
+        if (result.issues.length > lines.length) lines.push(`...and ${result.issues.length - lines.length} more`);
+        alert(`${result.issues.length} pasted value${result.issues.length === 1 ? ' was' : 's were'} skipped:\n\n${lines.join('\n')}`);
+      }
+    };
+
+    document.addEventListener('copy', handleCopy);
+    document.addEventListener('cut', handleCut);
+    document.addEventListener('paste', handlePaste);
+    return () => {
+      document.removeEventListener('copy', handleCopy);
+      document.removeEventListener('cut', handleCut);
+      document.removeEventListener('paste', handlePaste);
+    };
+  });
 
   // Navigation helper
   const navigateCell = (direction: 'up' | 'down' | 'left' | 'right') => {
@@ -806,7 +1761,7 @@ export default function SpreadsheetTable({
         } else {
           // Auto-add row if at the end
           addRow();
-          newRow = Math.max(...data.map(row => row.id)) + 1;
+          newRow = getNextRowId(data);
         }
         break;
       }
@@ -817,36 +1772,147 @@ export default function SpreadsheetTable({
         if (selectedCell.col < visibleFields.length - 1) {
           newCol = selectedCell.col + 1;
         } else {
-          // Auto-add column if at the end
+          // Offer to add a column if at the end; selection stays put until it exists
           addColumn();
-          newCol = selectedCell.col + 1;
         }
         break;
     }
 
+    revealPendingRef.current = true;
     setSelectedCell({ row: newRow, col: newCol });
+    setSelectedCells(new Set());
+    setIsMultiSelect(false);
+    setRangeEnd(null);
+  };
+
+  // Select the rectangle between two cells; the anchor becomes the active cell
+  const selectRange = (anchor: CellPosition, focus: CellPosition) => {
+    const isSingleCell = anchor.row === focus.row && anchor.col === focus.col;
+    const cellIds = isSingleCell ? new Set<string>() : getRangeCellIds(processedData, anchor, focus);
+    setSelectedCell(anchor);
+    setRangeEnd(isSingleCell ? null : focus);
+    setSelectedCells(cellIds);
+    setIsMultiSelect(cellIds.size > 0);
+  };
+
+  const selectRows = (fromRowId: number, toRowId: number) => {
+    selectRange({ row: fromRowId, col: 0 }, { row: toRowId, col: visibleFields.length - 1 });
+  };
+
+  const selectColumns = (fromCol: number, toCol: number) => {
+    if (processedData.length === 0) return;
+    selectRange(
+      { row: processedData[0].id, col: fromCol },
+      { row: processedData[processedData.length - 1].id, col: toCol }
+    );
+  };
+
+  const isRowSelected = (rowId: number) =>
+    visibleFields.length > 0 && visibleFields.every((_, colIndex) => selectedCells.has(toCellId({ row: rowId, col: colIndex })));
+
+  const isColumnSelected = (colIndex: number) =>
+    processedData.length > 0 && processedData.every(row => selectedCells.has(toCellId({ row: row.id, col: colIndex })));
+
+  // Move a visible column so it sits at `target` among the visible columns, saving the new order
+  // to the view. Widths are kept by workbook position, so they go with the column. The selection
+  // follows the column
+  const moveColumn = (colIndex: number, target: number) => {
+    const field = visibleFields[colIndex];
+    if (!field || !onColumnOrder || target === colIndex || target === colIndex + 1) return;
+
+    const order = moveField(orderFields(allFields, columnOrder), field, visibleFields[target] ?? null);
+    onColumnOrder(order);
+    const newIndex = order.filter(candidate => !hiddenFields.includes(candidate)).indexOf(field);
+    if (isColumnSelected(colIndex)) {
+      selectColumns(newIndex, newIndex);
+    } else if (selectedCell) {
+      setSelectedCell({ row: selectedCell.row, col: newIndex });
+      setSelectedCells(new Set());
+      setIsMultiSelect(false);
+      setRangeEnd(null);
+    }
+    console.log(`Moved column ${visibleHeaders[colIndex]}`);
+  };
+
+  // Shift+Arrow: move the far corner of the range, stopping at the table edges
+  const extendRange = (direction: 'up' | 'down' | 'left' | 'right') => {
+    if (!selectedCell) return;
+
+    const focus = rangeEnd ?? selectedCell;
+    const rowIndex = processedData.findIndex(row => row.id === focus.row);
+    const rowStep = direction === 'up' ? -1 : direction === 'down' ? 1 : 0;
+    const colStep = direction === 'left' ? -1 : direction === 'right' ? 1 : 0;
+    const nextRow = processedData[Math.min(Math.max(rowIndex + rowStep, 0), processedData.length - 1)];
+    if (!nextRow) return;
+
+    revealPendingRef.current = true;
+    selectRange(selectedCell, {
+      row: nextRow.id,
+      col: Math.min(Math.max(focus.col + colStep, 0), visibleFields.length - 1),
+    });
+  };
+
+  // Select a find result, scrolling it into view
+  const revealMatch = ({ rowId, field }: FindMatch) => {
+    const col = visibleFields.indexOf(field);
+    if (col === -1) return;
+    revealPendingRef.current = true;
+    setSelectedCell({ row: rowId, col });
+    setSelectedCells(new Set());
+    setIsMultiSelect(false);
+    setRangeEnd(null);
+  };
+
+  const replaceCells = (replacements: Replacement[]) => {
+    if (replacements.length === 0) return;
+    commitChange(`Replace ${replacements.length} cell${replacements.length === 1 ? '' : 's'}`, {
+      rows: applyReplacements(data, replacements)
+    });
+    console.log(`Replaced ${replacements.length} cells`);
+  };
+
+  const stepSearch = (direction: SearchDirection) => {
+    if (matchCells.length === 0) return;
+
+    const position = (cell: CellPosition) => (rowIndexById.get(cell.row) ?? -1) * visibleFields.length + cell.col;
+    const current = selectedCell ? position(selectedCell) : -1;
+    const target = direction === 'next'
+      ? matchCells.find(cell => position(cell) > current) ?? matchCells[0]
+      : [...matchCells].reverse().find(cell => position(cell) < current) ?? matchCells[matchCells.length - 1];
+    revealMatch({ rowId: target.row, field: visibleFields[target.col] });
+  };
+
+  useImperativeHandle(ref, () => ({ stepSearch, commitChange }));
+
+  // Blank every cell in the selection as one undoable step
+  const clearCells = (cellIds: Set<string>, action = 'Clear') => {
+    commitChange(`${action} ${cellIds.size} cell${cellIds.size === 1 ? '' : 's'}`, {
+      rows: data.map(row => {
+        const fields = visibleFields.filter((_, colIndex) => cellIds.has(toCellId({ row: row.id, col: colIndex })));
+        if (fields.length === 0) return row;
+        const cleared = { ...row };
+        fields.forEach(field => {
+          cleared[field] = '';
+        });
+        return cleared;
+      })
+    });
   };
 
   // Clear cell content
   const clearCell = (rowId: number, colIndex: number) => {
     const field = visibleFields[colIndex] as keyof SpreadsheetRow;
-    setData(prevData => 
-      prevData.map(row => 
+    commitChange('Clear cell', {
+      rows: data.map(row => 
         row.id === rowId ? { ...row, [field]: '' } : row
       )
-    );
+    });
   };
 
   // Select all cells
   const selectAll = () => {
-    const allCells = new Set<string>();
-    processedData.forEach(row => {
-      visibleFields.forEach((_, colIndex) => {
-        allCells.add(`${row.id}-${colIndex}`);
-      });
-    });
-    setSelectedCells(allCells);
-    setIsMultiSelect(true);
+    if (processedData.length === 0) return;
+    selectRows(processedData[0].id, processedData[processedData.length - 1].id);
   };
 
   // Context menu handler
@@ -873,10 +1939,10 @@ export default function SpreadsheetTable({
         if (rowIndex !== undefined) addRowAt(rowIndex + 1);
         break;
       case 'addColumnLeft':
-        if (colIndex !== undefined) addColumnAt(colIndex);
+        if (colIndex !== undefined) addColumnAt(toWorkbookIndex(colIndex));
         break;
       case 'addColumnRight':
-        if (colIndex !== undefined) addColumnAt(colIndex + 1);
+        if (colIndex !== undefined) addColumnAt(toWorkbookIndex(colIndex) + 1);
         break;
       case 'deleteRow':
         if (rowIndex !== undefined) {
@@ -884,6 +1950,23 @@ export default function SpreadsheetTable({
           if (rowId) deleteRow(rowId);
         }
         break;
+      case 'freezeRows':
+        if (rowIndex !== undefined) onFreeze?.({ frozenRows: rowIndex + 1 });
+        break;
+      case 'unfreezeRows':
+        onFreeze?.({ frozenRows: 0 });
+        break;
+      case 'freezeColumns':
+        if (colIndex !== undefined) onFreeze?.({ frozenColumns: colIndex + 1 });
+        break;
+      case 'unfreezeColumns':
+        onFreeze?.({ frozenColumns: 0 });
+        break;
+      case 'renameColumn':
+        if (colIndex !== undefined) {
+          renameColumn(colIndex);
+        }
+        break;
       case 'deleteColumn':
         if (colIndex !== undefined) {
           deleteColumn(colIndex);
@@ -898,7 +1981,11 @@ export default function SpreadsheetTable({
       case 'clearCell':
         if (rowIndex !== undefined && colIndex !== undefined) {
           const rowId = processedData[rowIndex]?.id;
-          if (rowId) clearCell(rowId, colIndex);
+          if (rowId && selectedCells.has(toCellId({ row: rowId, col: colIndex }))) {
+            clearCells(selectedCells);
+          } else if (rowId) {
+            clearCell(rowId, colIndex);
+          }
         }
         break;
       case 'clearRow':
@@ -915,132 +2002,141 @@ export default function SpreadsheetTable({
     }
   };
 
-  // Update addRowAt to recalculate widths if needed
+  // Where rows dropped at a position among the rows on screen go in the sheet: just before the
+  // row shown there, or after the last row shown when the position is past the end
+  const toDataIndex = (position: number, rows: SpreadsheetRow[], shown: SpreadsheetRow[]) => {
+    const next = shown[position];
+    if (next) return rows.findIndex(row => row.id === next.id);
+    const previous = shown[shown.length - 1];
+    return previous ? rows.findIndex(row => row.id === previous.id) + 1 : rows.length;
+  };
+
+  // Insert a row at a position among the rows on screen, which may be filtered or sorted
   const addRowAt = (position?: number) => {
-    const newId = Math.max(...data.map(row => row.id)) + 1;
-    const newRow: SpreadsheetRow = {
-      id: newId,
-      jobRequest: '',
-      submitted: new Date().toLocaleDateString('en-GB'),
-      status: 'need to start',
-      submitter: '',
-      url: '',
-      assigned: '',
-      priority: 'Medium',
-      dueDate: '',
-      estValue: ''
-    };
+    const newRow = createEmptyRow(getNextRowId(data), customColumns);
     
-    // Add empty values for custom columns
-    customColumns.forEach(col => {
-      const fieldName = col.toLowerCase().replace(/\s+/g, '');
-      (newRow as Record<string, string>)[fieldName] = '';
-    });
-    
-    if (position !== undefined && position < data.length) {
+    if (position !== undefined && position < processedData.length) {
       const newData = [...data];
-      newData.splice(position, 0, newRow);
-      setData(newData);
+      newData.splice(toDataIndex(position, data, processedData), 0, newRow);
+      commitChange('Insert row', { rows: newData });
     } else {
-      setData([...data, newRow]);
+      commitChange('Add row', { rows: [...data, newRow] });
     }
     
     console.log('New row added at position:', position);
   };
 
-  // Add column at specific position
-  const addColumnAt = (position?: number) => {
-    const columnName = prompt('Enter new column name:');
-    if (columnName && columnName.trim()) {
-      const newColumnName = columnName.trim();
-      const newCustomColumns = [...customColumns];
-      
-      if (position !== undefined && position < allHeaders.length) {
-        newCustomColumns.splice(position, 0, newColumnName);
-      } else {
-        newCustomColumns.push(newColumnName);
-      }
-      
-      setCustomColumns(newCustomColumns);
-      
-      // Add the new column to all existing rows with empty values
-      const fieldName = newColumnName.toLowerCase().replace(/\s+/g, '');
-      setData(prevData => 
-        prevData.map(row => ({
-          ...row,
-          [fieldName]: ''
-        }))
-      );
-      
-      // Calculate smart width for the new column (header length + padding)
-      const charWidth = 8;
-      const padding = 24;
-      const minWidth = 120;
-      const newColumnWidth = Math.max(minWidth, (newColumnName.length * charWidth) + padding);
-      
-      // Extend column widths array with smart width
-      setColumnWidths(prev => {
-        const newWidths = [...prev];
-        if (position !== undefined && position < prev.length) {
-          newWidths.splice(position, 0, newColumnWidth);
-        } else {
-          newWidths.push(newColumnWidth);
-        }
-        return newWidths;
-      });
-      
-      console.log(`New column "${newColumnName}" added at position: ${position} with width ${newColumnWidth}px`);
+  // Move rows to a position among the rows on screen. The order of the rows in the sheet is its
+  // manual order, which views show when they have no sort, so a sorted view is offered a switch to it
+  const moveRows = (rowIds: number[], target: number) => {
+    const moving = new Set(rowIds);
+    const shown = processedData.filter(row => !moving.has(row.id));
+    const shownTarget = processedData.slice(0, target).filter(row => !moving.has(row.id)).length;
+    const rowsById = new Map(data.map(row => [row.id, row]));
+    const movedRows = rowIds.flatMap(rowId => rowsById.get(rowId) ?? []);
+
+    // Dropping the rows where they already are does nothing
+    const onScreen = [...shown.slice(0, shownTarget), ...movedRows, ...shown.slice(shownTarget)];
+    if (onScreen.every((row, i) => row.id === processedData[i]?.id)) return;
+
+    const sortedView = sortKeys.length > 0 ? views.find(view => view.id === activeViewId) : undefined;
+    if (sortedView) {
+      const label = movedRows.length === 1 ? 'this row' : `these ${movedRows.length} rows`;
+      if (!confirm(`This view is sorted. Switch it to manual order and move ${label}?`)) return;
     }
+
+    const rest = data.filter(row => !moving.has(row.id));
+    const index = toDataIndex(shownTarget, rest, shown);
+    const newData = [...rest.slice(0, index), ...movedRows, ...rest.slice(index)];
+    if (!sortedView && newData.every((row, i) => row === data[i])) return;
+    const entry: HistoryEntry = { label: `Move ${movedRows.length === 1 ? 'row' : `${movedRows.length} rows`}`, rows: diffRowMove(data, newData, rowIds) };
+
+    setData(newData);
+    // Clearing the sort is part of the move, so undo sorts the view again
+    if (sortedView) {
+      const manualView = { ...sortedView, sortKeys: [] };
+      entry.views = { before: [sortedView], after: [manualView] };
+      setViews(prev => prev.map(view => (view.id === manualView.id ? manualView : view)));
+    }
+    recordHistory(entry);
+    console.log('Rows moved:', rowIds);
   };
 
-  // Delete column
-  const deleteColumn = (colIndex: number) => {
-    if (colIndex < fields.length) {
-      alert('Cannot delete built-in columns');
+  // Add column at a workbook column index; built-in columns stay first
+  const addColumnAt = (position?: number) => {
+    setColumnDialog({
+      position: position === undefined ? undefined : Math.max(0, position - builtInColumns.length),
+    });
+  };
+
+  // Rename a column. Only the label changes; values stay under the column's id
+  const renameColumn = (colIndex: number) => {
+    const column = columns[toWorkbookIndex(colIndex)];
+    if (!column?.capabilities.rename) return;
+
+    const label = prompt('Column name', column.label)?.trim();
+    if (!label || label === column.label) return;
+    if (isColumnNameTaken(label, columns, column.id)) {
+      alert(`A column named "${label}" already exists`);
       return;
     }
-    
-    const customColIndex = colIndex - fields.length;
-    if (customColIndex >= 0 && customColIndex < customColumns.length) {
-      const columnToDelete = customColumns[customColIndex];
-      const fieldName = columnToDelete.toLowerCase().replace(/\s+/g, '');
-      
-      if (confirm(`Delete column "${columnToDelete}"?`)) {
-        // Remove from custom columns
-        setCustomColumns(prev => prev.filter((_, i) => i !== customColIndex));
-        
-        // Remove from data
-        setData(prevData => 
-          prevData.map(row => {
-            const newRow = { ...row };
-            delete newRow[fieldName];
-            return newRow;
-          })
-        );
-        
-        // Remove from column widths
-        setColumnWidths(prev => prev.filter((_, i) => i !== colIndex));
-        
-        console.log(`Column "${columnToDelete}" deleted`);
-      }
+
+    commitChange(`Rename column ${column.label}`, column.custom
+      ? { customColumns: customColumns.map(col => (col.id === column.id ? { ...col, name: label } : col)) }
+      : { builtInColumns: builtInColumns.map(col => (col.id === column.id ? { ...col, label } : col)) });
+    console.log(`Column "${column.label}" renamed to "${label}"`);
+  };
+
+  // Delete a column with its values and width
+  const deleteColumn = (colIndex: number) => {
+    const widthIndex = toWorkbookIndex(colIndex);
+    const column = columns[widthIndex];
+    if (!column?.capabilities.delete || !confirm(`Delete column "${column.label}"?`)) return;
+
+    // Views stop filtering, sorting, hiding and ordering by the column
+    const nextViews = views.map(view => removeViewField(view, column.id));
+
+    if (column.custom) {
+      // Remove from custom columns, data and column widths in one step
+      commitChange(`Delete column ${column.label}`, {
+        customColumns: customColumns.filter(col => col.id !== column.id),
+        rows: data.map(row => {
+          const newRow = { ...row };
+          delete newRow[column.id];
+          return newRow;
+        }),
+        columnWidths: columnWidths.filter((_, i) => i !== widthIndex),
+        views: nextViews,
+      });
+    } else {
+      // Every row keeps the built-in fields, so the values are reset to those of a new row:
+      // the default status or priority, empty text otherwise
+      const emptyRow = createEmptyRow(0, []);
+      commitChange(`Delete column ${column.label}`, {
+        builtInColumns: builtInColumns.filter(col => col.id !== column.id),
+        rows: data.map(row => ({ ...row, [column.id]: column.kind === 'choice' ? emptyRow[column.id] : '' })),
+        columnWidths: columnWidths.filter((_, i) => i !== widthIndex),
+        views: nextViews,
+      });
     }
+
+    console.log(`Column "${column.label}" deleted`);
   };
 
   // Duplicate row
   const duplicateRow = (rowId: number) => {
     const rowToDuplicate = data.find(row => row.id === rowId);
     if (rowToDuplicate) {
-      const newId = Math.max(...data.map(row => row.id)) + 1;
-      const duplicatedRow = { ...rowToDuplicate, id: newId };
-      setData([...data, duplicatedRow]);
+      const duplicatedRow = { ...rowToDuplicate, id: getNextRowId(data) };
+      commitChange(`Duplicate row ${rowId}`, { rows: [...data, duplicatedRow] });
       console.log(`Row ${rowId} duplicated`);
     }
   };
 
   // Clear row
   const clearRow = (rowId: number) => {
-    setData(prevData => 
-      prevData.map(row => {
+    commitChange(`Clear row ${rowId}`, {
+      rows: data.map(row => {
         if (row.id === rowId) {
           const clearedRow = { ...row };
           // Clear all fields except id
@@ -1053,45 +2149,45 @@ export default function SpreadsheetTable({
         }
         return row;
       })
-    );
+    });
   };
 
   // Clear column
   const clearColumn = (colIndex: number) => {
     const field = visibleFields[colIndex] as keyof SpreadsheetRow;
-    setData(prevData => 
-      prevData.map(row => ({ ...row, [field]: '' }))
-    );
+    commitChange(`Clear column ${visibleHeaders[colIndex]}`, {
+      rows: data.map(row => ({ ...row, [field]: '' }))
+    });
   };
 
   // Batch actions
   const handleBatchAction = (action: string) => {
-    const selectedRowIds = Array.from(selectedCells).map(cellId => {
-      const [rowId] = cellId.split('-');
-      return parseInt(rowId);
-    });
+    const selectedRowIds = Array.from(selectedCells).map(cellId => parseCellId(cellId).row);
     const uniqueRowIds = Array.from(new Set(selectedRowIds));
 
     switch (action) {
       case 'deleteRows':
         if (confirm(`Delete ${uniqueRowIds.length} selected rows?`)) {
-          setData(prevData => prevData.filter(row => !uniqueRowIds.includes(row.id)));
+          commitChange(`Delete ${uniqueRowIds.length} rows`, {
+            rows: data.filter(row => !uniqueRowIds.includes(row.id))
+          });
           setSelectedCells(new Set());
+          setRangeEnd(null);
         }
         break;
       case 'duplicateRows': {
-        const rowsToDuplicate = data.filter(row => uniqueRowIds.includes(row.id));
-        const newRows = rowsToDuplicate.map(row => ({
-          ...row,
-          id: Math.max(...data.map(r => r.id)) + rowsToDuplicate.indexOf(row) + 1
-        }));
-        setData([...data, ...newRows]);
+        const selectedIds = new Set(uniqueRowIds);
+        const rowsToDuplicate = data.filter(row => selectedIds.has(row.id));
+        const firstId = getNextRowId(data);
+        const newRows = rowsToDuplicate.map((row, index) => ({ ...row, id: firstId + index }));
+        commitChange(`Duplicate ${newRows.length} rows`, { rows: [...data, ...newRows] });
         setSelectedCells(new Set());
+        setRangeEnd(null);
         break;
       }
       case 'clearRows':
-        setData(prevData => 
-          prevData.map(row => {
+        commitChange(`Clear ${uniqueRowIds.length} rows`, {
+          rows: data.map(row => {
             if (uniqueRowIds.includes(row.id)) {
               const clearedRow = { ...row };
               Object.keys(clearedRow).forEach(key => {
@@ -1103,14 +2199,17 @@ export default function SpreadsheetTable({
             }
             return row;
           })
-        );
+        });
         setSelectedCells(new Set());
+        setRangeEnd(null);
         break;
     }
   };
 
-  // Handle cell selection with Ctrl/Shift
+  // Handle cell selection: Ctrl toggles cells, Shift extends a range from the active cell, dragging selects a range
   const handleCellSelection = (rowId: number, colIndex: number, e: React.MouseEvent) => {
+    if (e.button !== 0 || (editingCell?.row === rowId && editingCell?.col === colIndex)) return;
+
     if (e.ctrlKey || e.metaKey) {
       // Multi-select with Ctrl
       const cellId = `${rowId}-${colIndex}`;
@@ -1124,18 +2223,165 @@ export default function SpreadsheetTable({
       
       setSelectedCells(newSelectedCells);
       setIsMultiSelect(newSelectedCells.size > 0);
+      setRangeEnd(null);
+    } else if (e.shiftKey && selectedCell) {
+      e.preventDefault();
+      selectRange(selectedCell, { row: rowId, col: colIndex });
     } else {
-      // Single select
+      // Single select, and the start of a drag
       setSelectedCells(new Set());
       setIsMultiSelect(false);
+      setRangeEnd(null);
       setSelectedCell({ row: rowId, col: colIndex });
+      dragSelectRef.current = 'cells';
+    }
+  };
+
+  // Row numbers and headers select whole rows and columns; Shift or dragging extends them
+  const handleRowHeaderSelection = (rowId: number, e: React.MouseEvent) => {
+    if (e.button !== 0) return;
+    e.preventDefault();
+    // Dragging the number of a selected row moves every selected row
+    if (!e.shiftKey && isRowSelected(rowId)) {
+      setRowMove({
+        rowIds: processedData.filter(row => isRowSelected(row.id)).map(row => row.id),
+        target: processedData.findIndex(row => row.id === rowId),
+      });
+      document.body.style.cursor = 'grabbing';
+      return;
+    }
+    selectRows(e.shiftKey && selectedCell ? selectedCell.row : rowId, rowId);
+    dragSelectRef.current = 'rows';
+  };
+
+  const handleColumnHeaderSelection = (colIndex: number, e: React.MouseEvent) => {
+    if (e.button !== 0) return;
+    e.preventDefault();
+    // Dragging a header that is already selected moves the column instead
+    if (!e.shiftKey && onColumnOrder && isColumnSelected(colIndex)) {
+      setColumnMove({ field: visibleFields[colIndex], target: colIndex });
+      document.body.style.cursor = 'grabbing';
+      return;
+    }
+    selectColumns(e.shiftKey && selectedCell ? selectedCell.col : colIndex, colIndex);
+    dragSelectRef.current = 'columns';
+  };
+
+  // Drop before the header under the pointer, or after it past its middle
+  const handleColumnMoveOver = (colIndex: number, e: React.MouseEvent<HTMLElement>) => {
+    if (!columnMove) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const target = e.clientX < rect.left + rect.width / 2 ? colIndex : colIndex + 1;
+    if (target !== columnMove.target) setColumnMove({ ...columnMove, target });
+  };
+
+  // Drop above the row under the pointer, or below it past its middle
+  const handleRowMoveOver = (rowIndex: number, e: React.MouseEvent<HTMLElement>) => {
+    if (!rowMove) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const target = e.clientY < rect.top + rect.height / 2 ? rowIndex : rowIndex + 1;
+    if (target !== rowMove.target) setRowMove({ ...rowMove, target });
+  };
+
+  // Dropping dragged row numbers moves the rows; Escape cancels the drag
+  useEffect(() => {
+    if (!rowMove) return;
+    const finishMove = () => {
+      setRowMove(null);
+      document.body.style.cursor = '';
+      moveRows(rowMove.rowIds, rowMove.target);
+    };
+    const cancelMove = (e: KeyboardEvent) => {
+      if (e.key !== 'Escape') return;
+      setRowMove(null);
+      document.body.style.cursor = '';
+    };
+    document.addEventListener('mouseup', finishMove);
+    document.addEventListener('keydown', cancelMove);
+    return () => {
+      document.removeEventListener('mouseup', finishMove);
+      document.removeEventListener('keydown', cancelMove);
+    };
+  });
+
+  // Dropping a dragged header moves its column; Escape cancels the drag
+  useEffect(() => {
+    if (!columnMove) return;
+    const finishMove = () => {
+      moveColumn(visibleFields.indexOf(columnMove.field), columnMove.target);
+      setColumnMove(null);
+      document.body.style.cursor = '';
+    };
+    const cancelMove = (e: KeyboardEvent) => {
+      if (e.key !== 'Escape') return;
+      setColumnMove(null);
+      document.body.style.cursor = '';
+    };
+    document.addEventListener('mouseup', finishMove);
+    document.addEventListener('keydown', cancelMove);
+    return () => {
+      document.removeEventListener('mouseup', finishMove);
+      document.removeEventListener('keydown', cancelMove);
+    };
+  });
+
+  // Extend the range being dragged to the cell under the pointer
+  const handleDragSelection = (rowId: number | null, colIndex: number | null) => {
+    if (fillDrag) {
+      if (rowId !== null && colIndex !== null) setFillDrag({ target: { row: rowId, col: colIndex } });
+      return;
+    }
+    if (!selectedCell) return;
+    if (dragSelectRef.current === 'cells' && rowId !== null && colIndex !== null) {
+      selectRange(selectedCell, { row: rowId, col: colIndex });
+    } else if (dragSelectRef.current === 'rows' && rowId !== null) {
+      selectRows(selectedCell.row, rowId);
+    } else if (dragSelectRef.current === 'columns' && colIndex !== null) {
+      selectColumns(selectedCell.col, colIndex);
     }
   };
 
+  useEffect(() => {
+    const endDragSelection = () => {
+      dragSelectRef.current = null;
+    };
+    document.addEventListener('mouseup', endDragSelection);
+    return () => document.removeEventListener('mouseup', endDragSelection);
+  }, []);
+
+  // Dropping the fill handle fills the cells it was dragged over
+  useEffect(() => {
+    if (!fillDrag) return;
+    const finishFill = () => {
+      if (fillDrag.target) applyFillPlan(fillDrag.target);
+      setFillDrag(null);
+    };
+    document.addEventListener('mouseup', finishFill);
+    return () => document.removeEventListener('mouseup', finishFill);
+  });
+
+  // Cells the fill will write to, outlined while the handle is dragged
+  const fillPlan = fillDrag?.target ? getFillPlan(fillDrag.target) : null;
+  const fillPreview = new Set(fillPlan ? fillPlan.lines.flatMap(line => line.targets.map(toCellId)) : []);
+
+  // The fill handle sits on the bottom-right cell of the selection
+  const fillHandleCell = selectionBlock && !editingCell
+    ? { row: selectionBlock.rows[selectionBlock.rows.length - 1].id, col: selectionBlock.lastCol }
+    : null;
+
+  // Rows and columns the selection touches, highlighted in the row numbers and headers
+  const selectionExtent = useMemo(() => {
+    const cells = selectedCells.size > 0 ? Array.from(selectedCells).map(parseCellId) : selectedCell ? [selectedCell] : [];
+    return {
+      rows: new Set(cells.map(cell => cell.row)),
+      cols: new Set(cells.map(cell => cell.col)),
+    };
+  }, [selectedCell, selectedCells]);
+
   // Add auto-resize columns button to toolbar
   const handleAutoResizeColumns = () => {
     const smartWidths = calculateSmartColumnWidths();
-    setColumnWidths(smartWidths);
+    commitChange('Auto-resize columns', { columnWidths: smartWidths });
     console.log('Columns auto-resized to fit content');
   };
 
@@ -1144,21 +2390,47 @@ export default function SpreadsheetTable({
       {/* Toolbar */}
       <div className="flex items-center justify-between p-2 sm:p-3 border-b border-gray-200 bg-gradient-to-r from-gray-50 to-white">
         <div className="flex items-center space-x-3 flex-1 min-w-0">
-          {(searchTerm || filterField || sortField) && (
+          {(appliedSearchTerm || filter.children.length > 0 || sortKeys.length > 0) && (
             <div className="flex items-center gap-2 text-xs text-gray-600">
-              {searchTerm && (
-                <span className="bg-yellow-100 text-yellow-800 px-2 py-1 rounded-full border border-yellow-200 font-medium whitespace-nowrap">
-                  Found {searchResultsCount} match{searchResultsCount !== 1 ? 'es' : ''} for "{searchTerm}"
+              {appliedSearchTerm && (
+                <span className="flex items-center space-x-1 bg-yellow-100 text-yellow-800 px-2 py-1 rounded-full border border-yellow-200 font-medium whitespace-nowrap">
+                  <span>
+                    {activeMatchNumber > 0
+                      ? `${activeMatchNumber} of ${searchResultsCount}`
+                      : `Found ${searchResultsCount}`} match{searchResultsCount !== 1 ? 'es' : ''} for "{appliedSearchTerm}"
+                    {matchingRowsOnly && ' • matching rows only'}
+                  </span>
+                  <button
+                    onClick={() => stepSearch('previous')}
+                    disabled={searchResultsCount === 0}
+                    className="px-1 rounded hover:bg-yellow-200 disabled:opacity-40"
+                    title="Previous match (Shift+F3)"
+                  >
+                    ▲
+                  </button>
+                  <button
+                    onClick={() => stepSearch('next')}
+                    disabled={searchResultsCount === 0}
+                    className="px-1 rounded hover:bg-yellow-200 disabled:opacity-40"
+                    title="Next match (F3)"
+                  >
+                    ▼
+                  </button>
                 </span>
               )}
-              {filterField && (
-                <span className="bg-blue-100 text-blue-800 px-2 py-1 rounded-full border border-blue-200 font-medium whitespace-nowrap">
-                  Filtered by {filterField}: {filterValue}
+              {filter.children.length > 0 && (
+                <span
+                  className="bg-blue-100 text-blue-800 px-2 py-1 rounded-full border border-blue-200 font-medium whitespace-nowrap max-w-xs truncate"
+                  title={filterSummary}
+                >
+                  Filtered by {filterSummary}
                 </span>
               )}
-              {sortField && (
+              {sortKeys.length > 0 && (
                 <span className="bg-purple-100 text-purple-800 px-2 py-1 rounded-full border border-purple-200 font-medium whitespace-nowrap">
-                  Sorted by {sortField} ({sortOrder?.toUpperCase()})
+                  Sorted by {sortKeys
+                    .map(key => `${allHeaders[allFields.indexOf(key.field)] ?? key.field} ${key.order === 'asc' ? '↑' : '↓'}`)
+                    .join(', then ')}
                 </span>
               )}
             </div>
@@ -1169,8 +2441,15 @@ export default function SpreadsheetTable({
             </span>
             {/* Keyboard shortcuts help */}
             <span className="text-gray-400 border-l border-gray-300 pl-4 hidden xl:block whitespace-nowrap">
-              Shortcuts: Ctrl+Shift+R (Add Row), Ctrl+Shift+C (Add Column), Del (Clear), Shift+Del (Delete Row)
+              Shortcuts: Ctrl+Shift+R (Add Row), Ctrl+Shift+C (Add Column), Del (Clear), Shift+Del (Delete Row), Ctrl+Z (Undo)
             </span>
+            <button
+              onClick={() => setShowFindReplace(true)}
+              className="text-gray-400 border-l border-gray-300 pl-4 hover:text-gray-600 transition-colors hidden lg:block whitespace-nowrap"
+              title="Find and replace (Ctrl+H)"
+            >
+              Find and replace
+            </button>
             {/* Auto-resize columns button */}
             <button
               onClick={handleAutoResizeColumns}
@@ -1182,6 +2461,25 @@ export default function SpreadsheetTable({
           </div>
         </div>
         <div className="flex items-center space-x-3">
+          {/* Undo / redo */}
+          <div className="flex items-center space-x-1">
+            <button
+              onClick={() => stepHistory('undo')}
+              disabled={!nextUndo}
+              className="px-2 py-1.5 text-xs text-gray-600 rounded-md hover:bg-gray-100 transition-colors font-medium disabled:opacity-40 disabled:cursor-not-allowed whitespace-nowrap"
+              title={nextUndo ? `Undo ${nextUndo.label} (Ctrl+Z)` : 'Nothing to undo'}
+            >
+              ↶ <span className="hidden md:inline">{nextUndo ? `Undo ${nextUndo.label}` : 'Undo'}</span>
+            </button>
+            <button
+              onClick={() => stepHistory('redo')}
+              disabled={!nextRedo}
+              className="px-2 py-1.5 text-xs text-gray-600 rounded-md hover:bg-gray-100 transition-colors font-medium disabled:opacity-40 disabled:cursor-not-allowed whitespace-nowrap"
+              title={nextRedo ? `Redo ${nextRedo.label} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+            >
+              ↷ <span className="hidden md:inline">{nextRedo ? `Redo ${nextRedo.label}` : 'Redo'}</span>
+            </button>
+          </div>
           {/* Batch actions */}
           {isMultiSelect && selectedCells.size > 0 && (
             <div className="flex items-center space-x-2 border-r border-gray-300 pr-3">
@@ -1227,45 +2525,68 @@ export default function SpreadsheetTable({
       </div>
 
       {/* Table container with horizontal scroll */}
-      <div className="flex-1 overflow-auto">
+      <div ref={scrollRef} className="flex-1 overflow-auto" onScroll={handleScroll}>
         <div className="min-w-max">
           <table ref={tableRef} className="w-full border-collapse bg-white">
             <thead>
               {/* Field names header row */}
-              <tr className="sticky top-0 z-10">
-                <th className={`w-12 sm:w-16 ${getCellHeight()} bg-gradient-to-b from-gray-100 to-gray-50 border-r border-b border-gray-300 ${getTextSize()} text-gray-700 font-semibold sticky left-0 z-20 relative`}>
+              <tr ref={headerRowRef} className="sticky top-0 z-30">
+                <th ref={cornerCellRef} className={`w-12 sm:w-16 ${getCellHeight()} bg-gradient-to-b from-gray-100 to-gray-50 border-r border-b border-gray-300 ${getTextSize()} text-gray-700 font-semibold sticky left-0 z-20 relative`}>
                   <div className="flex items-center justify-center">
                     <span className="hidden sm:inline">#</span>
                     <span className="sm:hidden text-xs">#</span>
                   </div>
                 </th>
-                {visibleHeaders.map((header, index) => (
-                  <th 
-                    key={header} 
-                    className={`${getCellHeight()} bg-gradient-to-b from-gray-50 to-white border-r border-b border-gray-300 ${getTextSize()} text-gray-700 font-semibold px-2 sm:px-3 text-left relative hover:bg-gray-100 transition-colors`}
-                    style={{
-                      width: columnWidths[index] || 120, 
-                      minWidth: Math.max(columnWidths[index] || 120, 120),
-                      maxWidth: Math.min(columnWidths[index] || 120, 400)
-                    }}
-                    onContextMenu={(e) => handleContextMenu(e, 'column', undefined, index)}
-                  >
-                    <div className="flex items-center space-x-1 min-w-0">
-                      <span className="truncate flex-1">{header}</span>
-                      {/* Column width indicator for long headers */}
-                      {header.length > 20 && (
-                        <span className="text-xs text-gray-400 flex-shrink-0" title={`${header.length} chars`}>
-                          •••
-                        </span>
+                {renderColumnSpacer(leadingColumnsWidth)}
+                {renderedCols.map(index => {
+                  const header = visibleHeaders[index];
+                  return (
+                    <th 
+                      key={visibleFields[index]} 
+                      className={`${getCellHeight()} ${
+                        selectionExtent.cols.has(index) ? 'bg-blue-100 text-blue-800' : 'bg-gradient-to-b from-gray-50 to-white text-gray-700'
+                      } border-r border-b border-gray-300 ${getTextSize()} font-semibold px-2 sm:px-3 text-left ${getFrozenColumnClass(index, 'z-10')} hover:bg-gray-100 transition-colors cursor-pointer select-none ${
+                        columnMove?.field === visibleFields[index] ? 'opacity-50' : ''
+                      }`}
+                      style={{
+                        width: getColumnWidth(index),
+                        minWidth: getColumnWidth(index),
+                        maxWidth: getColumnWidth(index),
+                        ...getFrozenColumnStyle(index)
+                      }}
+                      onMouseDown={(e) => handleColumnHeaderSelection(index, e)}
+                      onMouseEnter={() => handleDragSelection(null, index)}
+                      onMouseMove={(e) => handleColumnMoveOver(index, e)}
+                      onContextMenu={(e) => handleContextMenu(e, 'column', undefined, index)}
+                    >
+                      {/* Where a dragged column will be dropped */}
+                      {columnMove && (columnMove.target === index || (columnMove.target === index + 1 && index === visibleFields.length - 1)) && (
+                        <div
+                          className={`absolute top-0 ${columnMove.target === index ? '-left-px' : '-right-px'} w-0.5 h-full bg-blue-500 z-10 pointer-events-none`}
+                        />
                       )}
-                    </div>
-                    {/* Column resize handle */}
-                    <div 
-                      className="absolute top-0 right-0 w-2 h-full cursor-col-resize hover:bg-blue-500 hover:opacity-50 transition-colors"
-                      onMouseDown={(e) => startColumnResize(index, e)}
-                    />
-                  </th>
-                ))}
+                      <div className="flex items-center space-x-1 min-w-0">
+                        {/* Column letter used in formula references */}
+                        <span className="text-[10px] font-mono text-gray-400 flex-shrink-0">
+                          {columnLetter(allFields.indexOf(visibleFields[index]))}
+                        </span>
+                        <span className="truncate flex-1">{header}</span>
+                        {/* Column width indicator for long headers */}
+                        {header.length > 20 && (
+                          <span className="text-xs text-gray-400 flex-shrink-0" title={`${header.length} chars`}>
+                            •••
+                          </span>
+                        )}
+                      </div>
+                      {/* Column resize handle */}
+                      <div 
+                        className="absolute top-0 right-0 w-2 h-full cursor-col-resize hover:bg-blue-500 hover:opacity-50 transition-colors"
+                        onMouseDown={(e) => startColumnResize(index, e)}
+                      />
+                    </th>
+                  );
+                })}
+                {renderColumnSpacer(trailingColumnsWidth)}
                 {/* Add Column button */}
                 <th 
                   className={`w-10 sm:w-12 ${getCellHeight()} bg-gradient-to-b from-gray-50 to-white border-r border-b border-gray-300 ${getTextSize()} text-gray-700 font-semibold px-1 sm:px-2 text-center relative`}
@@ -1282,15 +2603,45 @@ export default function SpreadsheetTable({
                 </th>
               </tr>
             </thead>
-            <tbody>
-              {processedData.map((row, rowIndex) => {
-                const hasRowMatch = visibleFields.some(field => cellMatchesSearch(row, field));
-                const rowHeight = getRowHeight(row);
+            <tbody className="select-none">
+              {leadingRowsHeight > 0 && (
+                <tr aria-hidden>
+                  <td
+                    colSpan={renderedCols.length + 4}
+                    className="p-0 border-0"
+                    style={{ height: leadingRowsHeight }}
+                  />
+                </tr>
+              )}
+              {renderedRows.map(rowIndex => {
+                const row = processedData[rowIndex];
+                const isFrozenRow = rowIndex < frozenRowCount;
+                const hasRowMatch = matchedFieldsByRow.has(row.id);
+                const rowHeight = rowHeights[rowIndex];
+                const frozenRowEdge = rowIndex === frozenRowCount - 1 ? FROZEN_ROW_EDGE : '';
+                // Where dragged rows will be dropped: above this row, or below the last one
+                const dropLine = rowMove?.target === rowIndex ? '[&>td]:shadow-[inset_0_2px_0_0_var(--color-blue-500)]'
+                  : rowMove?.target === rowIndex + 1 && rowIndex === processedData.length - 1 ? '[&>td]:shadow-[inset_0_-2px_0_0_var(--color-blue-500)]'
+                  : '';
                 return (
-                  <tr key={row.id} className={`group hover:bg-blue-50 transition-colors ${hasRowMatch ? 'bg-yellow-50 border-l-2 border-yellow-400' : ''}`}>
+                  <tr
+                    key={row.id}
+                    className={`group hover:bg-blue-50 transition-colors ${hasRowMatch ? 'bg-yellow-50 border-l-2 border-yellow-400' : ''} ${
+                      isFrozenRow ? 'sticky z-20' : ''
+                    } ${
+                      rowMove?.rowIds.includes(row.id) ? 'opacity-50' : ''
+                    } ${dropLine}`}
+                    style={isFrozenRow ? { top: viewport.headerHeight + rowOffsets[rowIndex] } : undefined}
+                    onMouseMove={(e) => handleRowMoveOver(rowIndex, e)}
+                  >
                     {/* Row number */}
                     <td 
-                      className={`w-12 sm:w-16 ${rowHeight} bg-gradient-to-r from-gray-100 to-gray-50 border-r border-b border-gray-300 ${getTextSize()} text-gray-700 font-medium text-center sticky left-0 z-10 relative hover:bg-gray-200 transition-colors`}
+                      style={{ height: rowHeight }}
+                      className={`w-12 sm:w-16 ${
+                        selectionExtent.rows.has(row.id) ? 'bg-blue-100 text-blue-800' : 'bg-gradient-to-r from-gray-100 to-gray-50 text-gray-700'
+                      } border-r border-b border-gray-300 ${getTextSize()} font-medium text-center sticky left-0 z-10 relative hover:bg-gray-200 transition-colors cursor-pointer select-none ${frozenRowEdge}`}
+                      onMouseDown={(e) => handleRowHeaderSelection(row.id, e)}
+                      onMouseEnter={() => handleDragSelection(row.id, null)}
                       onContextMenu={(e) => handleContextMenu(e, 'row', rowIndex)}
                     >
                       <div className="flex items-center justify-center h-full">
@@ -1298,41 +2649,73 @@ export default function SpreadsheetTable({
                       </div>
                     </td>
                     
-                    {visibleHeaders.map((_, colIndex) => {
+                    {renderColumnSpacer(leadingColumnsWidth)}
+                    {renderedCols.map(colIndex => {
                       const isSelected = selectedCell?.row === row.id && selectedCell?.col === colIndex;
-                      const isMultiSelected = selectedCells.has(`${row.id}-${colIndex}`);
+                      const isMultiSelected = selectedCells.has(toCellId({ row: row.id, col: colIndex }));
+                      const isFillTarget = fillPreview.has(toCellId({ row: row.id, col: colIndex }));
                       const hasMatch = cellMatchesSearch(row, visibleFields[colIndex]);
                       const cellContent = getCellValue(row.id, colIndex);
+                      // Frozen cells hide what scrolls under them
+                      const isOpaque = (isFrozenRow || colIndex < frozenColumnCount)
+                        && !isSelected && !isMultiSelected && !isFillTarget && !hasMatch;
                       return (
                         <td 
                           key={colIndex}
-                          className={`${rowHeight} border-r border-b border-gray-300 ${getTextSize()} cursor-cell relative transition-all duration-200 ${
+                          className={`border-r border-b border-gray-300 ${getTextSize()} cursor-cell ${getFrozenColumnClass(colIndex, 'z-[5]')} transition-all duration-200 ${
                             isSelected ? 'border-2 border-blue-500 bg-blue-50 shadow-sm' : 
                             isMultiSelected ? 'bg-blue-100 border-blue-300' : 'hover:border-blue-300 hover:bg-gray-50'
-                          } ${hasMatch ? 'bg-yellow-50' : ''}`}
+                          } ${isFillTarget ? 'outline-dashed outline-1 -outline-offset-1 outline-blue-500 bg-blue-50/50' : ''} ${hasMatch ? 'bg-yellow-50' : ''} ${
+                            isOpaque ? 'bg-white' : ''
+                          } ${frozenRowEdge}`}
                           style={{
-                            width: columnWidths[colIndex] || 120, 
-                            minWidth: Math.max(columnWidths[colIndex] || 120, 120),
-                            maxWidth: Math.min(columnWidths[colIndex] || 120, 400)
+                            height: rowHeight,
+                            width: getColumnWidth(colIndex),
+                            minWidth: getColumnWidth(colIndex),
+                            maxWidth: getColumnWidth(colIndex),
+                            ...getFrozenColumnStyle(colIndex)
                           }}
-                          onClick={(e) => handleCellSelection(row.id, colIndex, e)}
+                          onMouseDown={(e) => handleCellSelection(row.id, colIndex, e)}
+                          onMouseEnter={() => handleDragSelection(row.id, colIndex)}
                           onDoubleClick={() => handleCellDoubleClick(row.id, colIndex)}
                           onContextMenu={(e) => handleContextMenu(e, 'cell', rowIndex, colIndex)}
                         >
-                          <div className={`h-full flex ${cellContent.length > 50 ? 'items-start pt-2' : 'items-center'} ${cellViewMode === 'expanded' ? 'items-start pt-2' : ''} min-w-0`}>
+                          <div className={`h-full overflow-hidden flex ${cellContent.length > 50 ? 'items-start pt-2' : 'items-center'} ${cellViewMode === 'expanded' ? 'items-start pt-2' : ''} min-w-0`}>
                             {renderCell(row, colIndex)}
                           </div>
+                          {fillHandleCell?.row === row.id && fillHandleCell.col === colIndex && (
+                            <div
+                              className="absolute -bottom-1 -right-1 w-2 h-2 bg-blue-600 border border-white cursor-crosshair z-10"
+                              title="Drag to fill (Ctrl+D / Ctrl+R)"
+                              onMouseDown={(e) => {
+                                e.preventDefault();
+                                e.stopPropagation();
+                                setFillDrag({ target: null });
+                              }}
+                            />
+                          )}
                         </td>
                       );
                     })}
+                    {renderColumnSpacer(trailingColumnsWidth)}
                     {/* Add Column cell */}
                     <td 
-                      className={`w-10 sm:w-12 ${rowHeight} border-r border-b border-gray-300 cursor-default bg-gray-50`}
+                      style={{ height: rowHeight }}
+                      className={`w-10 sm:w-12 border-r border-b border-gray-300 cursor-default bg-gray-50`}
                     >
                     </td>
                   </tr>
                 );
               })}
+              {trailingRowsHeight > 0 && (
+                <tr aria-hidden>
+                  <td
+                    colSpan={renderedCols.length + 4}
+                    className="p-0 border-0"
+                    style={{ height: trailingRowsHeight }}
+                  />
+                </tr>
+              )}
               
               {/* Add Row button row */}
               <tr className="hover:bg-blue-50 transition-colors">
@@ -1349,18 +2732,23 @@ export default function SpreadsheetTable({
                     </svg>
                   </button>
                 </td>
-                {visibleHeaders.map((_, colIndex) => (
-                  <td 
-                    key={colIndex}
-                    className={`${getCellHeight()} border-r border-b border-gray-300 cursor-default bg-gray-50`}
-                    style={{
-                      width: columnWidths[colIndex] || 120, 
-                      minWidth: Math.max(columnWidths[colIndex] || 120, 120),
-                      maxWidth: Math.min(columnWidths[colIndex] || 120, 400)
-                    }}
-                  >
-                  </td>
-                ))}
+                {renderColumnSpacer(leadingColumnsWidth)}
+                {renderedCols.map(colIndex => {
+                  return (
+                    <td 
+                      key={colIndex}
+                      className={`${getCellHeight()} border-r border-b border-gray-300 cursor-default bg-gray-50 ${getFrozenColumnClass(colIndex, 'z-[5]')}`}
+                      style={{
+                        width: getColumnWidth(colIndex),
+                        minWidth: getColumnWidth(colIndex),
+                        maxWidth: getColumnWidth(colIndex),
+                        ...getFrozenColumnStyle(colIndex)
+                      }}
+                    >
+                    </td>
+                  );
+                })}
+                {renderColumnSpacer(trailingColumnsWidth)}
                 {/* Add Column cell for add row */}
                 <td 
                   className={`w-10 sm:w-12 ${getCellHeight()} border-r border-b border-gray-300 cursor-default bg-gray-50`}
@@ -1372,6 +2760,32 @@ export default function SpreadsheetTable({
         </div>
       </div>
       
+      {/* Add Column Dialog */}
+      {columnDialog && (
+        <AddColumnDialog
+          existingNames={allHeaders}
+          onAdd={(column) => insertColumn(column, columnDialog.position)}
+          onClose={() => setColumnDialog(null)}
+        />
+      )}
+
+      {showFindReplace && (
+        <FindReplaceDialog
+          rows={processedData}
+          fields={visibleFields}
+          headers={visibleHeaders}
+          customColumns={customColumns}
+          selection={(selectedCells.size > 0 ? Array.from(selectedCells).map(parseCellId) : selectedCell ? [selectedCell] : [])
+            .map(cell => ({ rowId: cell.row, field: visibleFields[cell.col] }))
+            .filter(cell => cell.field !== undefined)}
+          activeField={selectedCell ? visibleFields[selectedCell.col] : undefined}
+          initialQuery={searchTerm}
+          onReveal={revealMatch}
+          onReplace={replaceCells}
+          onClose={() => setShowFindReplace(false)}
+        />
+      )}
+
       {/* Context Menu */}
       {contextMenu && (
         <ContextMenu
@@ -1380,6 +2794,8 @@ export default function SpreadsheetTable({
           type={contextMenu.type}
           rowIndex={contextMenu.rowIndex}
           colIndex={contextMenu.colIndex}
+          frozenRows={frozenRowCount}
+          frozenColumns={frozenColumnCount}
           onClose={() => setContextMenu(null)}
           onAction={handleContextAction}
         />
@@ -20,4 +20,30 @@ export interface Tab {
   id: string;
   label: string;
   active?: boolean;
-} 
\ No newline at end of file
+}
+
+export interface CellRef {
+  rowId: number;
+  field: string;
+}
+
+export type ColumnType =
+  | 'text'
+  | 'number'
+  | 'currency'
+  | 'date'
+  | 'select'
+  | 'multiSelect'
+  | 'checkbox'
+  | 'url'
+  | 'person'
+  | 'longText';
+
+export interface CustomColumn {
+  // Generated key the column's values are stored under on each row; the name can change freely
+  id: string;
+  name: string;
+  type: ColumnType;
+  options?: string[];
+  currency?: string;
+}
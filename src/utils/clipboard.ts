@@ -0,0 +1,149 @@
+import type { SpreadsheetRow, CustomColumn } from '../types';
+import { parseCsv, toCsv } from './csv';
+import {
+  coerceStatus,
+  coercePriority,
+  normalizeDate,
+  parseDisplayDate,
+  createEmptyRow,
+  getNextRowId,
+  createColumnId,
+} from './rows';
+import { getColumns, isColumnNameTaken } from './columns';
+import { coerceCustomValue } from './columnTypes';
+import { isFormula } from './formula';
+
+// Excel and Google Sheets put tab-separated text and an HTML table on the clipboard
+
+export const toClipboardText = (cells: string[][]) => toCsv(cells, '\t');
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export const toClipboardHtml = (cells: string[][]) =>
+  `<table>${cells
+    .map(row => `<tr>${row.map(cell => `<td>${escapeHtml(cell).replace(/\r?\n/g, '<br>')}</td>`).join('')}</tr>`)
+    .join('')}</table>`;
+
+export const parseClipboardText = (text: string): string[][] => parseCsv(text, '\t');
+
+export interface PasteIssue {
+  rowId: number;
+  column: string;
+  value: string;
+  message: string;
+}
+
+export interface PasteTarget {
+  // Rows from the anchor cell downwards and columns from it rightwards, in view order
+  rowIds: number[];
+  fields: string[];
+}
+
+const DATE_FIELDS = ['submitted', 'dueDate'];
+
+// Convert a value written into a field to its stored form. Values that don't fit the
+// field, such as an unknown status, come back with the reason
+export const coerceFieldValue = (
+  field: string,
+  raw: string,
+  customColumns: CustomColumn[]
+): { value: string; error?: string } => {
+  const value = raw.trim();
+  if (isFormula(value)) return { value };
+
+  if (field === 'status') {
+    const status = coerceStatus(value);
+    return status ? { value: status } : { value, error: 'is not a valid status' };
+  }
+  if (field === 'priority') {
+    const priority = coercePriority(value);
+    return priority ? { value: priority } : { value, error: 'is not a valid priority' };
+  }
+  if (DATE_FIELDS.includes(field)) {
+    const date = normalizeDate(value);
+    return date && !parseDisplayDate(date) ? { value: date, error: 'is not a DD-MM-YYYY date' } : { value: date };
+  }
+
+  const column = customColumns.find(col => col.id === field);
+  if (!column) return { value: raw };
+  const coerced = coerceCustomValue(column, raw);
+  return coerced.valid ? { value: coerced.value } : { value: raw, error: `is not a valid ${column.type} value` };
+};
+
+// Name new columns "Column N" without clashing with existing column names, each with a new id
+const createPasteColumns = (count: number, customColumns: CustomColumn[]): CustomColumn[] => {
+  const sheetColumns = getColumns(customColumns);
+  const takenIds = sheetColumns.map(column => column.id);
+  const columns: CustomColumn[] = [];
+  let n = sheetColumns.length + 1;
+
+  while (columns.length < count) {
+    const name = `Column ${n++}`;
+    if (isColumnNameTaken(name, sheetColumns) || columns.some(col => col.name === name)) continue;
+    const id = createColumnId(takenIds);
+    takenIds.push(id);
+    columns.push({ id, name, type: 'text' });
+  }
+  return columns;
+};
+
+// Write a block of pasted values from the anchor cell, adding rows and columns
+// when it runs past the table; values that do not fit a column are reported and skipped
+export const pasteCells = (
+  rows: SpreadsheetRow[],
+  customColumns: CustomColumn[],
+  block: string[][],
+  target: PasteTarget
+): { rows: SpreadsheetRow[]; customColumns: CustomColumn[]; issues: PasteIssue[]; pastedCount: number } => {
+  const width = block.reduce((max, cells) => Math.max(max, cells.length), 0);
+  const newColumns = createPasteColumns(Math.max(0, width - target.fields.length), customColumns);
+  const nextColumns = [...customColumns, ...newColumns];
+  const fields = [...target.fields, ...newColumns.map(col => col.id)];
+
+  const rowsById = new Map(rows.map(row => {
+    if (newColumns.length === 0) return [row.id, row];
+    const extended = { ...row };
+    newColumns.forEach(col => {
+      extended[col.id] = '';
+    });
+    return [row.id, extended];
+  }));
+
+  const rowIds = [...target.rowIds];
+  const addedRows: SpreadsheetRow[] = [];
+  let nextId = getNextRowId(rows);
+  while (rowIds.length < block.length) {
+    const row = createEmptyRow(nextId++, nextColumns);
+    addedRows.push(row);
+    rowsById.set(row.id, row);
+    rowIds.push(row.id);
+  }
+
+  const labels = new Map(getColumns(nextColumns).map(column => [column.id, column.label]));
+  const issues: PasteIssue[] = [];
+  let pastedCount = 0;
+
+  block.forEach((cells, rowOffset) => {
+    const row = { ...rowsById.get(rowIds[rowOffset])! };
+    rowsById.set(row.id, row);
+
+    cells.forEach((raw, colOffset) => {
+      const field = fields[colOffset];
+      const coerced = coerceFieldValue(field, raw, nextColumns);
+      if (coerced.error) {
+        issues.push({ rowId: row.id, column: labels.get(field) ?? field, value: raw, message: coerced.error });
+        return;
+      }
+      row[field] = coerced.value;
+      pastedCount++;
+    });
+  });
+
+  return {
+    rows: [...rows, ...addedRows].map(row => rowsById.get(row.id)!),
+    customColumns: nextColumns,
+    issues,
+    pastedCount,
+  };
+};
@@ -0,0 +1,137 @@
+import type { ColumnType, CustomColumn } from '../types';
+import { normalizeDate, parseDisplayDate } from './rows';
+
+// Cell values are always stored as strings; these helpers interpret them per column type
+
+export const COLUMN_TYPES: { type: ColumnType; label: string; description: string }[] = [
+  { type: 'text', label: 'Text', description: 'Short single-line text' },
+  { type: 'longText', label: 'Long text', description: 'Multi-line notes' },
+  { type: 'number', label: 'Number', description: 'Numeric values' },
+  { type: 'currency', label: 'Currency', description: 'Money amounts' },
+  { type: 'date', label: 'Date', description: 'DD-MM-YYYY dates' },
+  { type: 'select', label: 'Single select', description: 'One option from a list' },
+  { type: 'multiSelect', label: 'Multi-select tags', description: 'Several options from a list' },
+  { type: 'checkbox', label: 'Checkbox', description: 'Checked or unchecked' },
+  { type: 'url', label: 'URL', description: 'Clickable web link' },
+  { type: 'person', label: 'Person', description: 'A team member' },
+];
+
+export const CURRENCIES = ['USD', 'EUR', 'GBP', 'INR', 'JPY'];
+
+export const hasOptions = (type: ColumnType) => type === 'select' || type === 'multiSelect';
+
+export const parseTags = (value: string): string[] =>
+  value.split(',').map(tag => tag.trim()).filter(Boolean);
+
+export const formatTags = (tags: string[]) => tags.join(', ');
+
+export const isChecked = (value: string) => value === 'true';
+
+// Accept thousands separators, currency symbols and surrounding spaces
+export const parseNumber = (value: string): number | null => {
+  const cleaned = value.replace(/[,\s]/g, '').replace(/^[^\d.-]+/, '');
+  if (cleaned === '' || !/^-?\d*\.?\d+$/.test(cleaned)) return null;
+  return Number(cleaned);
+};
+
+// <input type="date"> works with YYYY-MM-DD while cells store DD-MM-YYYY
+export const toDateInputValue = (value: string) => {
+  const date = parseDisplayDate(value);
+  if (!date) return '';
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+export const fromDateInputValue = (value: string) => (value ? normalizeDate(value) : '');
+
+// Text shown in the grid, also used to size columns
+export const formatCellValue = (column: CustomColumn, value: string): string => {
+  if (!value) return '';
+
+  switch (column.type) {
+    case 'number': {
+      const number = parseNumber(value);
+      return number === null ? value : number.toLocaleString('en-US', { maximumFractionDigits: 10 });
+    }
+    case 'currency': {
+      const number = parseNumber(value);
+      if (number === null) return value;
+      return new Intl.NumberFormat('en-US', { style: 'currency', currency: column.currency || 'USD' }).format(number);
+    }
+    case 'checkbox':
+      return isChecked(value) ? 'Yes' : 'No';
+    case 'multiSelect':
+      return formatTags(parseTags(value));
+    default:
+      return value;
+  }
+};
+
+// Convert free-form input (typed, pasted or imported) into the stored form for a column
+export const coerceCustomValue = (column: CustomColumn, raw: string): { value: string; valid: boolean } => {
+  const value = raw.trim();
+  if (value === '') return { value: '', valid: true };
+
+  switch (column.type) {
+    case 'number':
+    case 'currency': {
+      const number = parseNumber(value);
+      return number === null ? { value, valid: false } : { value: String(number), valid: true };
+    }
+    case 'date': {
+      const normalized = normalizeDate(value);
+      return { value: normalized, valid: parseDisplayDate(normalized) !== null };
+    }
+    case 'select': {
+      const match = column.options?.find(option => option.toLowerCase() === value.toLowerCase());
+      return match ? { value: match, valid: true } : { value, valid: false };
+    }
+    case 'multiSelect': {
+      const tags = parseTags(value);
+      const matches = tags
+        .map(tag => column.options?.find(option => option.toLowerCase() === tag.toLowerCase()))
+        .filter((tag): tag is string => !!tag);
+      return { value: formatTags(matches), valid: matches.length === tags.length };
+    }
+    case 'checkbox': {
+      const token = value.toLowerCase();
+      if (['true', 'yes', 'y', '1', 'x', 'checked'].includes(token)) return { value: 'true', valid: true };
+      if (['false', 'no', 'n', '0', 'unchecked'].includes(token)) return { value: '', valid: true };
+      return { value: '', valid: false };
+    }
+    default:
+      return { value: raw, valid: true };
+  }
+};
+
+// Comparable key for sorting; empty cells sort last in ascending order
+const sortKey = (column: CustomColumn, value: string): string | number | null => {
+  if (value === '') return null;
+
+  switch (column.type) {
+    case 'number':
+    case 'currency':
+      return parseNumber(value);
+    case 'date':
+      return parseDisplayDate(value)?.getTime() ?? null;
+    case 'checkbox':
+      return isChecked(value) ? 1 : 0;
+    case 'select': {
+      const index = column.options?.indexOf(value) ?? -1;
+      return index >= 0 ? index : value.toLowerCase();
+    }
+    default:
+      return value.toLowerCase();
+  }
+};
+
+export const compareCustomValues = (column: CustomColumn, a: string, b: string): number => {
+  const aKey = sortKey(column, a);
+  const bKey = sortKey(column, b);
+  if (aKey === bKey) return 0;
+  if (aKey === null) return 1;
+  if (bKey === null) return -1;
+  if (typeof aKey === 'number' && typeof bKey === 'number') return aKey - bKey;
+  return String(aKey).localeCompare(String(bKey));
+};
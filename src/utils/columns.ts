@@ -0,0 +1,136 @@
+import type { CustomColumn } from '../types';
+import { STATUS_VALUES, PRIORITY_VALUES, createColumnId, getCustomFieldKey } from './rows';
+import type { FilterFieldKind } from './filters';
+
+// What the user may do with a column from the grid and the toolbar
+export interface ColumnCapabilities {
+  hide: boolean;
+  sort: boolean;
+  filter: boolean;
+  rename: boolean;
+  delete: boolean;
+}
+
+const ALL_CAPABILITIES: ColumnCapabilities = { hide: true, sort: true, filter: true, rename: true, delete: true };
+
+// One column of a sheet, built-in or custom. The id is the key its values are stored under on each row
+export interface ColumnSchema {
+  id: string;
+  label: string;
+  kind: FilterFieldKind;
+  options?: string[];
+  // The custom column definition; absent for built-in columns
+  custom?: CustomColumn;
+  capabilities: ColumnCapabilities;
+}
+
+// Built-in columns in workbook order, with their default labels
+export const BUILT_IN_COLUMNS = [
+  { id: 'jobRequest', label: 'Job Request', kind: 'text' },
+  { id: 'submitted', label: 'Submitted', kind: 'date' },
+  { id: 'status', label: 'Status', kind: 'choice', options: STATUS_VALUES },
+  { id: 'submitter', label: 'Submitter', kind: 'text' },
+  { id: 'url', label: 'URL', kind: 'text' },
+  { id: 'assigned', label: 'Assigned', kind: 'text' },
+  { id: 'priority', label: 'Priority', kind: 'choice', options: PRIORITY_VALUES },
+  { id: 'dueDate', label: 'Due Date', kind: 'date' },
+  { id: 'estValue', label: 'Est. Value', kind: 'number' },
+] as const satisfies readonly { id: string; label: string; kind: FilterFieldKind; options?: string[] }[];
+
+export type BuiltInColumnId = typeof BUILT_IN_COLUMNS[number]['id'];
+
+// A built-in column still on a sheet, under the label it was given there. Deleting a
+// built-in column removes its entry
+export interface BuiltInColumnState {
+  id: BuiltInColumnId;
+  label: string;
+}
+
+export const DEFAULT_BUILT_IN_COLUMNS: BuiltInColumnState[] = BUILT_IN_COLUMNS.map(({ id, label }) => ({ id, label }));
+
+export const isBuiltInColumnId = (id: string): id is BuiltInColumnId =>
+  BUILT_IN_COLUMNS.some(column => column.id === id);
+
+export const CHECKBOX_OPTIONS = ['Checked', 'Unchecked'];
+
+// How a custom column's values compare, from its type
+const getCustomColumnKind = (col: CustomColumn): Pick<ColumnSchema, 'kind' | 'options'> => {
+  switch (col.type) {
+    case 'number':
+    case 'currency':
+      return { kind: 'number' };
+    case 'date':
+      return { kind: 'date' };
+    case 'select':
+      return { kind: 'choice', options: col.options ?? [] };
+    case 'multiSelect':
+      return { kind: 'multiChoice', options: col.options ?? [] };
+    case 'checkbox':
+      return { kind: 'checkbox', options: CHECKBOX_OPTIONS };
+    default:
+      return { kind: 'text' };
+  }
+};
+
+// Every column of a sheet in workbook order, built-in columns first. Without the sheet's
+// built-in columns all of them are listed under their default labels
+export const getColumns = (
+  customColumns: CustomColumn[],
+  builtInColumns: BuiltInColumnState[] = DEFAULT_BUILT_IN_COLUMNS
+): ColumnSchema[] => [
+  ...builtInColumns.flatMap(({ id, label }): ColumnSchema[] => {
+    const column = BUILT_IN_COLUMNS.find(candidate => candidate.id === id);
+    return column ? [{ ...column, label, capabilities: ALL_CAPABILITIES }] : [];
+  }),
+  ...customColumns.map((col): ColumnSchema => ({
+    id: col.id,
+    label: col.name,
+    ...getCustomColumnKind(col),
+    custom: col,
+    capabilities: ALL_CAPABILITIES,
+  })),
+];
+
+// Every field in table order; formula column letters and column widths index into this list
+export const getWorkbookFields = (customColumns: CustomColumn[], builtInColumns?: BuiltInColumnState[]) =>
+  getColumns(customColumns, builtInColumns).map(column => column.id);
+
+// Width for a new column: its header length plus padding, at least 120px
+export const getNewColumnWidth = (name: string) => Math.max(120, name.length * 8 + 24);
+
+// A column name may only be used once on a sheet, whatever its case, so the search and the
+// dropdowns can tell columns apart
+export const isColumnNameTaken = (name: string, columns: ColumnSchema[], exceptId?: string) =>
+  columns.some(column => column.id !== exceptId && column.label.toLowerCase() === name.trim().toLowerCase());
+
+// Give ids to custom columns saved before they had them. The field their values were stored
+// under, given or derived from the name, becomes the id unless a built-in or earlier column
+// already has it; such a column gets a new id and a copy of the values it showed
+export const assignColumnIds = (
+  columns: (Omit<CustomColumn, 'id'> & { field?: string })[],
+  rows: unknown[]
+): { customColumns: CustomColumn[]; rows: unknown[] } => {
+  const takenIds: string[] = BUILT_IN_COLUMNS.map(column => column.id);
+  const copies: { from: string; to: string }[] = [];
+
+  const customColumns = columns.map(({ field, ...column }) => {
+    const legacyField = field ?? getCustomFieldKey(column.name);
+    const id = !legacyField || takenIds.includes(legacyField) ? createColumnId(takenIds) : legacyField;
+    if (id !== legacyField) copies.push({ from: legacyField, to: id });
+    takenIds.push(id);
+    return { ...column, id };
+  });
+
+  if (copies.length === 0) return { customColumns, rows };
+  return {
+    customColumns,
+    rows: rows.map(row => {
+      if (!row || typeof row !== 'object') return row;
+      const next: Record<string, unknown> = { ...row };
+      copies.forEach(({ from, to }) => {
+        next[to] = next[from] ?? '';
+      });
+      return next;
+    }),
+  };
+};
@@ -0,0 +1,100 @@
+export type CsvDelimiter = ',' | ';' | '\t' | '|';
+
+export const CSV_DELIMITERS: { value: CsvDelimiter; label: string }[] = [
+  { value: ',', label: 'Comma' },
+  { value: ';', label: 'Semicolon' },
+  { value: '\t', label: 'Tab' },
+  { value: '|', label: 'Pipe' },
+];
+
+const stripBom = (text: string) => (text.charCodeAt(0) === 0xfeff ? text.slice(1) : text);
+
+// Pick the delimiter that splits the first record into the most consistent columns
+export const detectDelimiter = (text: string): CsvDelimiter => {
+  const sample = stripBom(text).slice(0, 10000);
+  let best: CsvDelimiter = ',';
+  let bestScore = 0;
+
+  CSV_DELIMITERS.forEach(({ value }) => {
+    const rows = parseCsv(sample, value).slice(0, 10);
+    if (rows.length === 0) return;
+
+    const width = rows[0].length;
+    if (width < 2) return;
+
+    // Reward delimiters that give every sampled row the same width
+    const consistent = rows.filter(row => row.length === width).length;
+    const score = width * consistent;
+    if (score > bestScore) {
+      bestScore = score;
+      best = value;
+    }
+  });
+
+  return best;
+};
+
+// RFC 4180 parser: quoted fields may contain delimiters, newlines and "" escapes
+export const parseCsv = (text: string, delimiter: CsvDelimiter = detectDelimiter(text)): string[][] => {
+  const input = stripBom(text);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i += 2;
+          continue;
+        }
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      i++;
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+      if (char === '\r' && input[i + 1] === '\n') i++;
+    } else {
+      field += char;
+    }
+    i++;
+  }
+
+  // Flush the last record unless the file ended with a newline
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter(r => r.length > 1 || r[0].trim() !== '');
+};
+
+// Quote a field per RFC 4180 when it contains the delimiter, quotes or line breaks
+export const escapeCsvField = (value: string, delimiter: CsvDelimiter = ',') => {
+  if (value.includes('"') || value.includes(delimiter) || /[\r\n]/.test(value) || /^\s|\s$/.test(value)) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+};
+
+export const toCsv = (rows: string[][], delimiter: CsvDelimiter = ',') =>
+  rows.map(row => row.map(field => escapeCsvField(field, delimiter)).join(delimiter)).join('\r\n');
@@ -0,0 +1,92 @@
+import type { SpreadsheetRow, CellRef, ColumnType } from '../types';
+import { parseDisplayDate, orderFields } from './rows';
+import type { ColumnSchema } from './columns';
+import type { XlsxCell, XlsxSheet } from './xlsx';
+import { parseNumber, isChecked } from './columnTypes';
+
+export type ExportScope = 'all' | 'view' | 'selection';
+
+export interface ExportColumn {
+  field: string;
+  label: string;
+  type?: ColumnType;
+}
+
+export interface ExportTable {
+  columns: ExportColumn[];
+  rows: string[][];
+}
+
+const DATE_FIELDS = ['submitted', 'dueDate'];
+const NUMBER_FIELDS = ['estValue'];
+
+// Visible built-in and custom columns in the view's column order
+export const getExportColumns = (
+  sheetColumns: ColumnSchema[],
+  hiddenFields: string[],
+  columnOrder: string[] = []
+): ExportColumn[] => {
+  const columns = sheetColumns.map(col => ({ field: col.id, label: col.label, type: col.custom?.type }));
+  return orderFields(columns.map(col => col.field), columnOrder)
+    .filter(field => !hiddenFields.includes(field))
+    .map(field => columns.find(col => col.field === field)!);
+};
+
+// Build one string row per data row; a selection limits output to the rows
+// and columns it touches and blanks unselected cells
+export const buildExportTable = (
+  rows: SpreadsheetRow[],
+  columns: ExportColumn[],
+  selection?: CellRef[]
+): ExportTable => {
+  let exportRows = rows;
+  let exportColumns = columns;
+  let isSelected: (rowId: number, field: string) => boolean = () => true;
+
+  if (selection) {
+    const selectedKeys = new Set(selection.map(cell => `${cell.rowId}:${cell.field}`));
+    const selectedRowIds = new Set(selection.map(cell => cell.rowId));
+    const selectedFields = new Set(selection.map(cell => cell.field));
+
+    exportRows = rows.filter(row => selectedRowIds.has(row.id));
+    exportColumns = columns.filter(col => selectedFields.has(col.field));
+    isSelected = (rowId, field) => selectedKeys.has(`${rowId}:${field}`);
+  }
+
+  return {
+    columns: exportColumns,
+    rows: exportRows.map(row =>
+      exportColumns.map(col => (isSelected(row.id, col.field) ? String(row[col.field] ?? '') : ''))
+    ),
+  };
+};
+
+export const toCsvRows = (table: ExportTable): string[][] => [
+  table.columns.map(col => col.label),
+  ...table.rows,
+];
+
+// Keep dates as real Excel dates and estimated values as numbers
+const toXlsxCell = (column: ExportColumn, value: string): XlsxCell => {
+  if (!value) return null;
+
+  if (DATE_FIELDS.includes(column.field) || column.type === 'date') {
+    return parseDisplayDate(value) ?? value;
+  }
+  if (NUMBER_FIELDS.includes(column.field) || column.type === 'number' || column.type === 'currency') {
+    return parseNumber(value) ?? value;
+  }
+  if (column.type === 'checkbox') {
+    return isChecked(value) ? 'Yes' : 'No';
+  }
+  return value;
+};
+
+export const toXlsxSheet = (name: string, table: ExportTable): XlsxSheet => ({
+  name,
+  headerRow: true,
+  rows: [
+    table.columns.map(col => col.label),
+    ...table.rows.map(row => row.map((value, index) => toXlsxCell(table.columns[index], value))),
+  ],
+});
@@ -0,0 +1,131 @@
+import { isFormula, tokenizeFormula, parseAddress, formatAddress } from './formula';
+import { parseDisplayDate, formatDisplayDate } from './rows';
+
+// A cell taking part in a fill: the row id and the index into the workbook fields,
+// the same coordinates formula references use
+export interface FillCell {
+  row: number;
+  col: number;
+}
+
+// Move the relative references in a formula as if it were copied by the given offsets;
+// references pushed off the sheet become #REF!
+export const shiftFormula = (formula: string, rowOffset: number, colOffset: number): string => {
+  const body = formula.slice(1);
+  let tokens;
+  try {
+    tokens = tokenizeFormula(body);
+  } catch {
+    return formula;
+  }
+
+  let shifted = '';
+  let position = 0;
+  tokens.filter(token => token.type === 'ref').forEach(token => {
+    const address = parseAddress(token.text)!;
+    const col = address.colAbsolute ? address.col : address.col + colOffset;
+    const row = address.rowAbsolute ? address.row : address.row + rowOffset;
+    shifted += body.slice(position, token.start) + (col < 0 || row < 1 ? '#REF!' : formatAddress({ ...address, col, row }));
+    position = token.start + token.text.length;
+  });
+  return `=${shifted}${body.slice(position)}`;
+};
+
+const NUMBER_PATTERN = /^-?\d+(\.\d+)?$/;
+// Text ending in a number, such as "Item 3" or "Q1"
+const NUMBERED_TEXT_PATTERN = /^(.*?)(\d+)$/;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Average step between consecutive values, or null when they are not evenly spaced
+const getStep = (numbers: number[]): number | null => {
+  const steps = numbers.slice(1).map((value, index) => value - numbers[index]);
+  return steps.every(step => Math.abs(step - steps[0]) < 1e-9) ? steps[0] : null;
+};
+
+const roundStep = (value: number) => Number(value.toFixed(10));
+
+const extendDates = (dates: Date[], count: number): string[] | null => {
+  const last = dates[dates.length - 1];
+
+  // Same day of the month each time: step by whole months, e.g. 15-01, 15-02, 15-03
+  const months = dates.map(date => date.getFullYear() * 12 + date.getMonth());
+  const monthStep = getStep(months);
+  if (dates.length > 1 && monthStep && dates.every(date => date.getDate() === last.getDate())) {
+    return Array.from({ length: count }, (_, i) => {
+      const date = new Date(last.getFullYear(), last.getMonth() + monthStep * (i + 1), 1);
+      const lastDay = new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
+      date.setDate(Math.min(last.getDate(), lastDay));
+      return formatDisplayDate(date);
+    });
+  }
+
+  // Otherwise step by days, one day at a time for a single date
+  const days = dates.map(date => Math.round(date.getTime() / DAY_MS));
+  const dayStep = dates.length === 1 ? 1 : getStep(days);
+  if (dayStep === null) return null;
+  return Array.from({ length: count }, (_, i) => {
+    const date = new Date(last);
+    date.setDate(last.getDate() + dayStep * (i + 1));
+    return formatDisplayDate(date);
+  });
+};
+
+// Continue a series of plain values: evenly spaced numbers, dates and numbered text
+// extend, values from `cycle` step through it in order, anything else repeats
+export const extendSeries = (source: string[], count: number, cycle?: readonly string[]): string[] => {
+  const values = source.map(value => value.trim());
+  const repeat = () => Array.from({ length: count }, (_, i) => source[i % source.length]);
+  if (values.length === 0 || values.some(value => value === '')) return repeat();
+
+  if (cycle && values.every(value => cycle.includes(value))) {
+    const lastIndex = cycle.indexOf(values[values.length - 1]);
+    const indexes = values.map(value => cycle.indexOf(value));
+    const step = values.length === 1 ? 1 : getStep(indexes);
+    if (step === null) return repeat();
+    return Array.from({ length: count }, (_, i) => {
+      const index = (lastIndex + step * (i + 1)) % cycle.length;
+      return cycle[(index + cycle.length) % cycle.length];
+    });
+  }
+
+  const dates = values.map(parseDisplayDate);
+  if (dates.every(date => date !== null)) return extendDates(dates as Date[], count) ?? repeat();
+
+  // A single number is copied, as in other spreadsheets; two or more set the step
+  if (values.every(value => NUMBER_PATTERN.test(value))) {
+    const numbers = values.map(Number);
+    const step = getStep(numbers);
+    if (values.length === 1 || step === null) return repeat();
+    return Array.from({ length: count }, (_, i) => String(roundStep(numbers[numbers.length - 1] + step * (i + 1))));
+  }
+
+  const numbered = values.map(value => value.match(NUMBERED_TEXT_PATTERN));
+  if (numbered.every(match => match && match[1] === numbered[0]![1])) {
+    const numbers = numbered.map(match => Number(match![2]));
+    const step = values.length === 1 ? 1 : getStep(numbers);
+    if (step === null) return repeat();
+    const prefix = numbered[0]![1];
+    return Array.from({ length: count }, (_, i) => `${prefix}${Math.max(0, numbers[numbers.length - 1] + step * (i + 1))}`);
+  }
+
+  return repeat();
+};
+
+// Values for the target cells of one line of a fill (a column filled down or a row filled across).
+// Formulas are copied in turn with their references shifted; plain values extend as a series
+export const fillLine = (
+  sources: (FillCell & { value: string })[],
+  targets: FillCell[],
+  cycle?: readonly string[]
+): string[] => {
+  if (sources.some(source => isFormula(source.value.trim()))) {
+    return targets.map((target, i) => {
+      const source = sources[i % sources.length];
+      return isFormula(source.value.trim())
+        ? shiftFormula(source.value.trim(), target.row - source.row, target.col - source.col)
+        : source.value;
+    });
+  }
+  return extendSeries(sources.map(source => source.value), targets.length, cycle);
+};
@@ -0,0 +1,305 @@
+import type { SpreadsheetRow, CustomColumn } from '../types';
+import type { FilterField } from '../App';
+import { normalizeDate, parseDisplayDate } from './rows';
+import { getColumns } from './columns';
+import type { BuiltInColumnState } from './columns';
+import { parseNumber, parseTags, isChecked } from './columnTypes';
+
+export type FilterOperator =
+  | 'contains'
+  | 'startsWith'
+  | 'is'
+  | 'isNot'
+  | 'anyOf'
+  | 'isEmpty'
+  | 'before'
+  | 'after'
+  | 'between'
+  | 'greaterThan'
+  | 'lessThan';
+
+// A single test on one field. `values` holds the operands: one for most operators,
+// two for "between" (either may be blank for an open range) and any number for "anyOf".
+// `negate` inverts the test, as in the search query `-status:blocked`
+export interface FilterCondition {
+  type: 'condition';
+  field: FilterField;
+  operator: FilterOperator;
+  values: string[];
+  negate?: boolean;
+}
+
+export interface FilterGroup {
+  type: 'group';
+  join: 'and' | 'or';
+  children: FilterNode[];
+}
+
+export type FilterNode = FilterCondition | FilterGroup;
+
+export const EMPTY_FILTER: FilterGroup = { type: 'group', join: 'and', children: [] };
+
+// How a field's values are compared, which decides the operators on offer
+export type FilterFieldKind = 'text' | 'choice' | 'multiChoice' | 'checkbox' | 'date' | 'number';
+
+export interface FilterFieldOption {
+  key: FilterField;
+  label: string;
+  kind: FilterFieldKind;
+  options?: string[];
+}
+
+export const FILTER_OPERATORS: Record<FilterFieldKind, { operator: FilterOperator; label: string }[]> = {
+  text: [
+    { operator: 'contains', label: 'contains' },
+    { operator: 'startsWith', label: 'starts with' },
+    { operator: 'is', label: 'is' },
+    { operator: 'isEmpty', label: 'is empty' },
+  ],
+  choice: [
+    { operator: 'is', label: 'is' },
+    { operator: 'isNot', label: 'is not' },
+    { operator: 'anyOf', label: 'is any of' },
+    { operator: 'isEmpty', label: 'is empty' },
+  ],
+  multiChoice: [
+    { operator: 'is', label: 'includes' },
+    { operator: 'isNot', label: 'does not include' },
+    { operator: 'anyOf', label: 'includes any of' },
+    { operator: 'isEmpty', label: 'is empty' },
+  ],
+  checkbox: [{ operator: 'is', label: 'is' }],
+  date: [
+    { operator: 'is', label: 'is' },
+    { operator: 'before', label: 'is before' },
+    { operator: 'after', label: 'is after' },
+    { operator: 'between', label: 'is between' },
+    { operator: 'isEmpty', label: 'is empty' },
+  ],
+  number: [
+    { operator: 'is', label: '=' },
+    { operator: 'greaterThan', label: '>' },
+    { operator: 'lessThan', label: '<' },
+    { operator: 'between', label: 'between' },
+    { operator: 'isEmpty', label: 'is empty' },
+  ],
+};
+
+// Every field that can be filtered on, built-in fields first
+export const getFilterFields = (customColumns: CustomColumn[], builtInColumns?: BuiltInColumnState[]): FilterFieldOption[] =>
+  getColumns(customColumns, builtInColumns)
+    .filter(column => column.capabilities.filter)
+    .map(({ id, label, kind, options }) => ({ key: id, label, kind, ...(options ? { options } : {}) }));
+
+export const createCondition = (field: FilterFieldOption): FilterCondition => ({
+  type: 'condition',
+  field: field.key,
+  operator: FILTER_OPERATORS[field.kind][0].operator,
+  values: [],
+});
+
+// Conditions still missing their operands are ignored rather than hiding every row
+export const isConditionComplete = ({ operator, values }: FilterCondition) => {
+  switch (operator) {
+    case 'isEmpty':
+      return true;
+    case 'between':
+      return values.slice(0, 2).some(value => value.trim() !== '');
+    case 'anyOf':
+      return values.length > 0;
+    default:
+      return (values[0] ?? '').trim() !== '';
+  }
+};
+
+// Drop incomplete conditions and the groups left empty by that
+export const pruneFilter = (group: FilterGroup): FilterGroup => ({
+  ...group,
+  children: group.children.flatMap((child): FilterNode[] => {
+    if (child.type === 'condition') return isConditionComplete(child) ? [child] : [];
+    const pruned = pruneFilter(child);
+    return pruned.children.length > 0 ? [pruned] : [];
+  }),
+});
+
+// Drop the conditions on a field, e.g. one whose column was deleted, and the groups left empty by that
+export const removeFilterField = (group: FilterGroup, field: string): FilterGroup => ({
+  ...group,
+  children: group.children.flatMap((child): FilterNode[] => {
+    if (child.type === 'condition') return child.field === field ? [] : [child];
+    const remaining = removeFilterField(child, field);
+    return remaining.children.length > 0 ? [remaining] : [];
+  }),
+});
+
+export const countConditions = (group: FilterGroup): number =>
+  group.children.reduce((count, child) => count + (child.type === 'condition' ? 1 : countConditions(child)), 0);
+
+const matchesDate = (cell: string, { operator, values }: FilterCondition) => {
+  const date = parseDisplayDate(cell);
+  const [from, to] = values.map(value => parseDisplayDate(normalizeDate(value)));
+  if (!date) return false;
+
+  switch (operator) {
+    case 'is': return !!from && date.getTime() === from.getTime();
+    case 'before': return !!from && date < from;
+    case 'after': return !!from && date > from;
+    case 'between': return (!from || date >= from) && (!to || date <= to);
+    default: return false;
+  }
+};
+
+const matchesNumber = (cell: string, { operator, values }: FilterCondition) => {
+  const number = parseNumber(cell);
+  const [from, to] = values.map(value => (value.trim() === '' ? null : parseNumber(value)));
+  if (number === null) return false;
+
+  switch (operator) {
+    case 'is': return from !== null && number === from;
+    case 'greaterThan': return from !== null && number > from;
+    case 'lessThan': return from !== null && number < from;
+    case 'between': return (from == null || number >= from) && (to == null || number <= to);
+    default: return false;
+  }
+};
+
+const matchesChoice = (cellValues: string[], { operator, values }: FilterCondition) => {
+  const cells = cellValues.map(value => value.toLowerCase());
+  const targets = values.map(value => value.toLowerCase());
+
+  switch (operator) {
+    case 'is': return cells.includes(targets[0]);
+    case 'isNot': return !cells.includes(targets[0]);
+    case 'anyOf': return targets.some(target => cells.includes(target));
+    default: return false;
+  }
+};
+
+const matchesText = (cell: string, { operator, values }: FilterCondition) => {
+  const text = cell.toLowerCase();
+  const target = (values[0] ?? '').toLowerCase();
+
+  switch (operator) {
+    case 'contains': return text.includes(target);
+    case 'startsWith': return text.startsWith(target);
+    case 'is': return text.trim() === target.trim();
+    default: return false;
+  }
+};
+
+const testCondition = (cell: string, condition: FilterCondition, kind: FilterFieldKind) => {
+  if (condition.operator === 'isEmpty') return cell.trim() === '';
+
+  switch (kind) {
+    case 'date': return matchesDate(cell, condition);
+    case 'number': return matchesNumber(cell, condition);
+    case 'choice': return matchesChoice([cell], condition);
+    case 'multiChoice': return matchesChoice(parseTags(cell), condition);
+    case 'checkbox': return isChecked(cell) === (condition.values[0] === 'Checked');
+    default: return matchesText(cell, condition);
+  }
+};
+
+export const matchesCondition = (row: SpreadsheetRow, condition: FilterCondition, kind: FilterFieldKind) => {
+  const matched = testCondition(String(row[condition.field] ?? ''), condition, kind);
+  return condition.negate ? !matched : matched;
+};
+
+// Build a predicate for the whole filter tree; empty groups match every row
+export const createRowFilter = (filter: FilterGroup, customColumns: CustomColumn[]) => {
+  const kinds = new Map(getFilterFields(customColumns).map(field => [field.key, field.kind]));
+
+  const matchesGroup = (row: SpreadsheetRow, group: FilterGroup): boolean => {
+    const children = group.children.filter(child => child.type === 'group' || isConditionComplete(child));
+    if (children.length === 0) return true;
+
+    const matches = (child: FilterNode) =>
+      child.type === 'group' ? matchesGroup(row, child) : matchesCondition(row, child, kinds.get(child.field) ?? 'text');
+    return group.join === 'and' ? children.every(matches) : children.some(matches);
+  };
+
+  return (row: SpreadsheetRow) => matchesGroup(row, filter);
+};
+
+// Human-readable summary such as `Status is complete and Due Date is before 01-02-2025`
+export const describeFilter = (group: FilterGroup, fields: FilterFieldOption[]): string => {
+  const describeCondition = (condition: FilterCondition) => {
+    const field = fields.find(option => option.key === condition.field);
+    const label = field
+      ? FILTER_OPERATORS[field.kind].find(option => option.operator === condition.operator)?.label
+      : condition.operator;
+    const [from, to] = condition.values;
+    const operand =
+      condition.operator === 'isEmpty' ? ''
+        : condition.operator === 'anyOf' ? ` ${condition.values.join(', ')}`
+        : condition.operator === 'between' ? ` ${from || '…'} and ${to || '…'}`
+        : ` ${from}`;
+    return `${condition.negate ? 'not ' : ''}${field?.label ?? condition.field} ${label}${operand}`;
+  };
+
+  return group.children
+    .map(child => (child.type === 'group' ? `(${describeFilter(child, fields)})` : describeCondition(child)))
+    .join(` ${group.join} `);
+};
+
+// Convert a single field/value filter saved by older versions into a filter tree
+export const filterFromLegacy = (field: string, value: string, customColumns: CustomColumn[]): FilterGroup => {
+  if (!value.trim()) return EMPTY_FILTER;
+
+  const option = getFilterFields(customColumns).find(candidate => candidate.key === field);
+  const condition = (operator: FilterOperator, values: string[]): FilterGroup => ({
+    ...EMPTY_FILTER,
+    children: [{ type: 'condition', field, operator, values }],
+  });
+
+  switch (option?.kind) {
+    case 'date':
+      return condition('is', [normalizeDate(value)]);
+    case 'number': {
+      // Custom number filters accepted a comparison prefix such as ">1000" or "<=5"
+      const match = value.trim().match(/^(>=|<=|>|<|=)?\s*(.+)$/)!;
+      switch (match[1]) {
+        case '>': return condition('greaterThan', [match[2]]);
+        case '<': return condition('lessThan', [match[2]]);
+        case '>=': return condition('between', [match[2], '']);
+        case '<=': return condition('between', ['', match[2]]);
+        default: return condition('is', [match[2]]);
+      }
+    }
+    case 'choice':
+      return condition('is', [value]);
+    case 'multiChoice':
+      return condition('is', [value]);
+    case 'checkbox':
+      return condition('is', [['true', 'checked', 'yes'].includes(value.toLowerCase()) ? 'Checked' : 'Unchecked']);
+    default:
+      return condition('contains', [value]);
+  }
+};
+
+const OPERATORS = new Set(Object.values(FILTER_OPERATORS).flat().map(option => option.operator));
+
+// Read a filter tree from untrusted JSON, keeping only conditions on known fields
+export const parseFilter = (raw: unknown, fields: string[]): FilterGroup | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const node = raw as Record<string, unknown>;
+  if (node.type !== 'group' || (node.join !== 'and' && node.join !== 'or') || !Array.isArray(node.children)) return null;
+
+  const children = node.children.flatMap((child): FilterNode[] => {
+    if (!child || typeof child !== 'object') return [];
+    const entry = child as Record<string, unknown>;
+    if (entry.type === 'group') {
+      const group = parseFilter(entry, fields);
+      return group ? [group] : [];
+    }
+    const valid = entry.type === 'condition'
+      && typeof entry.field === 'string' && fields.includes(entry.field)
+      && OPERATORS.has(entry.operator as FilterOperator)
+      && Array.isArray(entry.values) && entry.values.every(value => typeof value === 'string');
+    return valid
+      ? [{ type: 'condition', field: entry.field as string, operator: entry.operator as FilterOperator, values: entry.values as string[] }]
+      : [];
+  });
+
+  return { type: 'group', join: node.join, children };
+};
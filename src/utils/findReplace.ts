@@ -0,0 +1,100 @@
+import type { SpreadsheetRow, CustomColumn } from '../types';
+import { coerceFieldValue } from './clipboard';
+
+export type FindScope = 'selection' | 'column' | 'sheet';
+
+export interface FindOptions {
+  query: string;
+  matchCase: boolean;
+  // The whole cell must match, not just part of it
+  wholeCell: boolean;
+  useRegex: boolean;
+}
+
+export interface FindMatch {
+  rowId: number;
+  field: string;
+}
+
+export interface Replacement extends FindMatch {
+  before: string;
+  after: string;
+}
+
+export interface ReplaceIssue extends Replacement {
+  message: string;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Pattern for the search, or the reason it can't be built; an empty query finds nothing
+export const createFindPattern = ({ query, matchCase, wholeCell, useRegex }: FindOptions): { pattern: RegExp | null; error?: string } => {
+  if (!query) return { pattern: null };
+
+  const source = useRegex ? query : escapeRegExp(query);
+  try {
+    return { pattern: new RegExp(wholeCell ? `^(?:${source})$` : source, matchCase ? 'g' : 'gi') };
+  } catch (error) {
+    return { pattern: null, error: error instanceof Error ? error.message : 'Invalid regular expression' };
+  }
+};
+
+// Cells in `cells` whose stored value matches, in the order given
+export const findMatches = (rows: SpreadsheetRow[], cells: FindMatch[], pattern: RegExp): FindMatch[] => {
+  const rowsById = new Map(rows.map(row => [row.id, row]));
+  return cells.filter(({ rowId, field }) => {
+    const row = rowsById.get(rowId);
+    if (!row) return false;
+    pattern.lastIndex = 0;
+    return pattern.test(String(row[field] ?? ''));
+  });
+};
+
+// Work out the new value of each matched cell. Plain text replacements are taken literally;
+// regular expressions can refer to groups with $1, $2... Results that don't fit the column
+// are returned as issues instead
+export const planReplacements = (
+  rows: SpreadsheetRow[],
+  matches: FindMatch[],
+  pattern: RegExp,
+  replacement: string,
+  { useRegex }: Pick<FindOptions, 'useRegex'>,
+  customColumns: CustomColumn[]
+): { replacements: Replacement[]; issues: ReplaceIssue[] } => {
+  const rowsById = new Map(rows.map(row => [row.id, row]));
+  const replaceWith = useRegex ? replacement : replacement.replace(/\$/g, '$$$$');
+  const replacements: Replacement[] = [];
+  const issues: ReplaceIssue[] = [];
+
+  matches.forEach(({ rowId, field }) => {
+    const before = String(rowsById.get(rowId)?.[field] ?? '');
+    pattern.lastIndex = 0;
+    const replaced = before.replace(pattern, replaceWith);
+    const coerced = coerceFieldValue(field, replaced, customColumns);
+    if (coerced.error) {
+      issues.push({ rowId, field, before, after: replaced, message: coerced.error });
+    } else if (coerced.value !== before) {
+      replacements.push({ rowId, field, before, after: coerced.value });
+    }
+  });
+
+  return { replacements, issues };
+};
+
+// Write the replacements into the rows, leaving untouched rows as they were
+export const applyReplacements = (rows: SpreadsheetRow[], replacements: Replacement[]): SpreadsheetRow[] => {
+  const byRow = new Map<number, Replacement[]>();
+  replacements.forEach(replacement => {
+    byRow.set(replacement.rowId, [...(byRow.get(replacement.rowId) ?? []), replacement]);
+  });
+
+  return rows.map(row => {
+    const changes = byRow.get(row.id);
+    if (!changes) return row;
+    const next = { ...row };
+    changes.forEach(({ field, after }) => {
+      next[field] = after;
+    });
+    return next;
+  });
+};
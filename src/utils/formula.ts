@@ -0,0 +1,500 @@
+import { parseDisplayDate, formatDisplayDate, normalizeDate } from './rows';
+import { parseNumber } from './columnTypes';
+import { columnLetter, dateToSerial } from './xlsx';
+
+/*
+ * Cells whose text starts with "=" are formulas. References use A1 notation:
+ * the letters pick a column in table order (hidden columns included) and the
+ * number is the row id shown in the row gutter, so references survive sorting
+ * and filtering. "$" pins a column or row when a formula is filled elsewhere.
+ */
+
+export type FormulaErrorCode = '#REF!' | '#CYCLE!' | '#VALUE!' | '#DIV/0!' | '#NAME?' | '#NUM!' | '#ERROR!';
+
+export interface FormulaError {
+  error: FormulaErrorCode;
+}
+
+export type FormulaValue = number | string | boolean | Date | FormulaError;
+
+export interface CellAddress {
+  col: number;
+  row: number;
+  colAbsolute: boolean;
+  rowAbsolute: boolean;
+}
+
+type BinaryOperator = '+' | '-' | '*' | '/' | '^' | '&' | '=' | '<>' | '<' | '>' | '<=' | '>=';
+
+export type FormulaNode =
+  | { type: 'number'; value: number }
+  | { type: 'string'; value: string }
+  | { type: 'boolean'; value: boolean }
+  | { type: 'ref'; address: CellAddress }
+  | { type: 'range'; start: CellAddress; end: CellAddress }
+  | { type: 'unary'; operator: '-' | '+' | '%'; operand: FormulaNode }
+  | { type: 'binary'; operator: BinaryOperator; left: FormulaNode; right: FormulaNode }
+  | { type: 'call'; name: string; args: FormulaNode[] }
+  | { type: 'error'; error: FormulaErrorCode };
+
+// Cell lookups supplied by the engine; both return #REF! for cells that do not exist
+export interface FormulaContext {
+  getCell: (address: CellAddress) => FormulaValue;
+  getRange: (start: CellAddress, end: CellAddress) => FormulaValue[] | FormulaError;
+}
+
+export const isFormula = (value: string) => value.length > 1 && value.startsWith('=');
+
+export const isFormulaError = (value: unknown): value is FormulaError =>
+  typeof value === 'object' && value !== null && 'error' in value;
+
+const formulaError = (error: FormulaErrorCode): FormulaError => ({ error });
+
+// --- References ---
+
+export const columnIndex = (letters: string) =>
+  letters.toUpperCase().split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+
+const ADDRESS_PATTERN = /^(\$?)([A-Za-z]{1,3})(\$?)(\d+)$/;
+
+export const parseAddress = (text: string): CellAddress | null => {
+  const match = text.match(ADDRESS_PATTERN);
+  if (!match) return null;
+  return {
+    col: columnIndex(match[2]),
+    row: Number(match[4]),
+    colAbsolute: match[1] === '$',
+    rowAbsolute: match[3] === '$',
+  };
+};
+
+export const formatAddress = ({ col, row, colAbsolute, rowAbsolute }: CellAddress) =>
+  `${colAbsolute ? '$' : ''}${columnLetter(col)}${rowAbsolute ? '$' : ''}${row}`;
+
+// --- Tokenizer ---
+
+type TokenType = 'number' | 'string' | 'ref' | 'name' | 'operator' | 'open' | 'close' | 'comma' | 'colon';
+
+export interface FormulaToken {
+  type: TokenType;
+  text: string;
+  start: number;
+}
+
+const TOKEN_PATTERNS: [TokenType, RegExp][] = [
+  ['number', /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/],
+  ['string', /^"(?:[^"]|"")*"/],
+  // A reference must not run into a function call such as LOG10(
+  ['ref', /^\$?[A-Za-z]{1,3}\$?\d+(?![\w(])/],
+  ['name', /^[A-Za-z_][A-Za-z0-9_.]*/],
+  ['operator', /^(<>|<=|>=|[-+*/^&=<>%])/],
+  ['open', /^\(/],
+  ['close', /^\)/],
+  ['comma', /^,/],
+  ['colon', /^:/],
+];
+
+// Tokens of the formula body (without the leading "="); throws on characters it cannot read
+export const tokenizeFormula = (body: string): FormulaToken[] => {
+  const tokens: FormulaToken[] = [];
+  let position = 0;
+
+  while (position < body.length) {
+    const rest = body.slice(position);
+    const whitespace = rest.match(/^\s+/);
+    if (whitespace) {
+      position += whitespace[0].length;
+      continue;
+    }
+
+    const matched = TOKEN_PATTERNS.find(([, pattern]) => pattern.test(rest));
+    if (!matched) throw new Error(`Unexpected "${rest[0]}" at ${position}`);
+
+    const text = rest.match(matched[1])![0];
+    tokens.push({ type: matched[0], text, start: position });
+    position += text.length;
+  }
+
+  return tokens;
+};
+
+// --- Parser ---
+
+const COMPARISON_OPERATORS = ['=', '<>', '<', '>', '<=', '>='];
+
+const parseTokens = (tokens: FormulaToken[]): FormulaNode => {
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const next = () => tokens[index++];
+  const isOperator = (...operators: string[]) =>
+    peek()?.type === 'operator' && operators.includes(peek().text);
+  const expect = (type: TokenType) => {
+    const token = next();
+    if (!token || token.type !== type) throw new Error(`Expected ${type}`);
+    return token;
+  };
+
+  const binaryLevel = (operators: string[], operand: () => FormulaNode) => (): FormulaNode => {
+    let left = operand();
+    while (isOperator(...operators)) {
+      const operator = next().text as BinaryOperator;
+      left = { type: 'binary', operator, left, right: operand() };
+    }
+    return left;
+  };
+
+  const primary = (): FormulaNode => {
+    const token = next();
+    if (!token) throw new Error('Unexpected end of formula');
+
+    switch (token.type) {
+      case 'number':
+        return { type: 'number', value: Number(token.text) };
+      case 'string':
+        return { type: 'string', value: token.text.slice(1, -1).replace(/""/g, '"') };
+      case 'ref': {
+        const start = parseAddress(token.text)!;
+        if (peek()?.type !== 'colon') return { type: 'ref', address: start };
+        next();
+        const end = parseAddress(expect('ref').text)!;
+        return { type: 'range', start, end };
+      }
+      case 'name': {
+        const name = token.text.toUpperCase();
+        if (peek()?.type !== 'open') {
+          if (name === 'TRUE' || name === 'FALSE') return { type: 'boolean', value: name === 'TRUE' };
+          throw new Error(`Unknown name ${token.text}`);
+        }
+        next();
+        const args: FormulaNode[] = [];
+        if (peek()?.type !== 'close') {
+          args.push(comparison());
+          while (peek()?.type === 'comma') {
+            next();
+            args.push(comparison());
+          }
+        }
+        expect('close');
+        return { type: 'call', name, args };
+      }
+      case 'open': {
+        const inner = comparison();
+        expect('close');
+        return inner;
+      }
+      default:
+        throw new Error(`Unexpected "${token.text}"`);
+    }
+  };
+
+  const postfix = (): FormulaNode => {
+    let node = primary();
+    while (isOperator('%')) {
+      next();
+      node = { type: 'unary', operator: '%', operand: node };
+    }
+    return node;
+  };
+
+  const unary = (): FormulaNode => {
+    if (isOperator('-', '+')) {
+      const operator = next().text as '-' | '+';
+      return { type: 'unary', operator, operand: unary() };
+    }
+    return postfix();
+  };
+
+  const power = binaryLevel(['^'], unary);
+  const multiplicative = binaryLevel(['*', '/'], power);
+  const additive = binaryLevel(['+', '-'], multiplicative);
+  const concat = binaryLevel(['&'], additive);
+  const comparison: () => FormulaNode = binaryLevel(COMPARISON_OPERATORS, concat);
+
+  const node = comparison();
+  if (index < tokens.length) throw new Error(`Unexpected "${peek().text}"`);
+  return node;
+};
+
+// Parse a formula (with its leading "="); syntax errors become an #ERROR! node
+export const parseFormula = (formula: string): FormulaNode => {
+  try {
+    return parseTokens(tokenizeFormula(formula.slice(1)));
+  } catch {
+    return { type: 'error', error: '#ERROR!' };
+  }
+};
+
+// Single cells and ranges read by a formula, used to build the dependency graph
+export const collectReferences = (node: FormulaNode): (FormulaNode & { type: 'ref' | 'range' })[] => {
+  switch (node.type) {
+    case 'ref':
+    case 'range':
+      return [node];
+    case 'unary':
+      return collectReferences(node.operand);
+    case 'binary':
+      return [...collectReferences(node.left), ...collectReferences(node.right)];
+    case 'call':
+      return node.args.flatMap(collectReferences);
+    default:
+      return [];
+  }
+};
+
+// --- Value coercion ---
+
+const serialToDate = (serial: number) => new Date(1899, 11, 30 + Math.floor(serial));
+
+const isDateLike = (value: FormulaValue) =>
+  value instanceof Date || (typeof value === 'string' && parseDisplayDate(value) !== null);
+
+// Cells store text, so numeric-looking strings such as "6,200,000" count as numbers
+const textToNumber = (value: string): number | null =>
+  /[a-z]/i.test(value) ? null : parseNumber(value);
+
+const toNumber = (value: FormulaValue): number | FormulaError => {
+  if (isFormulaError(value)) return value;
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (value instanceof Date) return dateToSerial(value);
+  if (value.trim() === '') return 0;
+
+  const number = textToNumber(value);
+  if (number !== null) return number;
+  const date = parseDisplayDate(value);
+  return date ? dateToSerial(date) : formulaError('#VALUE!');
+};
+
+const toDate = (value: FormulaValue): Date | FormulaError => {
+  if (isFormulaError(value)) return value;
+  if (value instanceof Date) return value;
+  if (typeof value === 'number') return serialToDate(value);
+  if (typeof value === 'string') {
+    const date = parseDisplayDate(normalizeDate(value));
+    if (date) return date;
+  }
+  return formulaError('#VALUE!');
+};
+
+const toText = (value: FormulaValue): string | FormulaError => {
+  if (isFormulaError(value)) return value;
+  if (value instanceof Date) return formatDisplayDate(value);
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+  return String(value);
+};
+
+const toBoolean = (value: FormulaValue): boolean | FormulaError => {
+  if (isFormulaError(value)) return value;
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'number') return value !== 0;
+  if (value instanceof Date) return true;
+  const text = value.trim().toUpperCase();
+  if (text === 'TRUE') return true;
+  if (text === 'FALSE' || text === '') return false;
+  const number = textToNumber(text);
+  return number === null ? formulaError('#VALUE!') : number !== 0;
+};
+
+// Text shown in the grid for a computed value
+export const formatFormulaValue = (value: FormulaValue): string => {
+  if (isFormulaError(value)) return value.error;
+  if (typeof value === 'number') return value.toLocaleString('en-US', { maximumFractionDigits: 10 });
+  return toText(value) as string;
+};
+
+// --- Functions ---
+
+type FormulaArg = FormulaValue | FormulaValue[];
+
+// Numbers from the arguments: direct arguments must convert, range cells that are not numeric are skipped
+const collectNumbers = (args: FormulaArg[]): number[] | FormulaError => {
+  const numbers: number[] = [];
+  for (const arg of args) {
+    if (Array.isArray(arg)) {
+      for (const value of arg) {
+        if (isFormulaError(value)) return value;
+        if (typeof value === 'number') numbers.push(value);
+        if (typeof value === 'string' && value.trim() !== '') {
+          const number = textToNumber(value);
+          if (number !== null) numbers.push(number);
+        }
+      }
+    } else {
+      const number = toNumber(arg);
+      if (isFormulaError(number)) return number;
+      numbers.push(number);
+    }
+  }
+  return numbers;
+};
+
+const withNumbers = (compute: (numbers: number[]) => FormulaValue) => (args: FormulaArg[]) => {
+  const numbers = collectNumbers(args);
+  return isFormulaError(numbers) ? numbers : compute(numbers);
+};
+
+const startOfDay = (date: Date) => Date.UTC(date.getFullYear(), date.getMonth(), date.getDate());
+
+const datedif = (args: FormulaArg[]): FormulaValue => {
+  if (args.length !== 3 || args.some(Array.isArray)) return formulaError('#VALUE!');
+  const [startArg, endArg, unitArg] = args as FormulaValue[];
+  const start = toDate(startArg);
+  const end = toDate(endArg);
+  const unit = toText(unitArg);
+  if (isFormulaError(start)) return start;
+  if (isFormulaError(end)) return end;
+  if (isFormulaError(unit)) return unit;
+  if (start > end) return formulaError('#NUM!');
+
+  let months = (end.getFullYear() - start.getFullYear()) * 12 + end.getMonth() - start.getMonth();
+  if (end.getDate() < start.getDate()) months--;
+
+  switch (unit.toUpperCase()) {
+    case 'D':
+      return Math.round((startOfDay(end) - startOfDay(start)) / 86400000);
+    case 'M':
+      return months;
+    case 'Y':
+      return Math.floor(months / 12);
+    default:
+      return formulaError('#NUM!');
+  }
+};
+
+const FUNCTIONS: Record<string, (args: FormulaArg[]) => FormulaValue> = {
+  SUM: withNumbers(numbers => numbers.reduce((sum, n) => sum + n, 0)),
+  AVERAGE: withNumbers(numbers =>
+    numbers.length === 0 ? formulaError('#DIV/0!') : numbers.reduce((sum, n) => sum + n, 0) / numbers.length
+  ),
+  MIN: withNumbers(numbers => (numbers.length === 0 ? 0 : Math.min(...numbers))),
+  MAX: withNumbers(numbers => (numbers.length === 0 ? 0 : Math.max(...numbers))),
+  // COUNT ignores anything that is not a number, including errors
+  COUNT: args =>
+    args.flat().filter(value =>
+      typeof value === 'number' || (typeof value === 'string' && value.trim() !== '' && textToNumber(value) !== null)
+    ).length,
+  CONCAT: args => {
+    let result = '';
+    for (const value of args.flat()) {
+      const text = toText(value);
+      if (isFormulaError(text)) return text;
+      result += text;
+    }
+    return result;
+  },
+  TODAY: args => {
+    if (args.length > 0) return formulaError('#VALUE!');
+    const now = new Date();
+    return new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  },
+  DATEDIF: datedif,
+};
+
+// --- Evaluation ---
+
+const compareValues = (left: FormulaValue, right: FormulaValue): number => {
+  const key = (value: FormulaValue) => {
+    if (value instanceof Date) return dateToSerial(value);
+    if (typeof value === 'boolean') return value ? 1 : 0;
+    if (typeof value === 'string') {
+      const number = value.trim() === '' ? null : textToNumber(value);
+      return number ?? value.toLowerCase();
+    }
+    return value as number;
+  };
+  const a = key(left);
+  const b = key(right);
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a).localeCompare(String(b));
+};
+
+const evaluateBinary = (operator: BinaryOperator, left: FormulaValue, right: FormulaValue): FormulaValue => {
+  if (isFormulaError(left)) return left;
+  if (isFormulaError(right)) return right;
+
+  if (operator === '&') return (toText(left) as string) + (toText(right) as string);
+
+  if (COMPARISON_OPERATORS.includes(operator)) {
+    const result = compareValues(left, right);
+    switch (operator) {
+      case '=': return result === 0;
+      case '<>': return result !== 0;
+      case '<': return result < 0;
+      case '>': return result > 0;
+      case '<=': return result <= 0;
+      default: return result >= 0;
+    }
+  }
+
+  const a = toNumber(left);
+  const b = toNumber(right);
+  if (isFormulaError(a)) return a;
+  if (isFormulaError(b)) return b;
+
+  switch (operator) {
+    case '+':
+    case '-': {
+      const result = operator === '+' ? a + b : a - b;
+      // Adding days to a date gives a date; the difference of two dates is a number of days
+      const leftIsDate = isDateLike(left);
+      const rightIsDate = isDateLike(right);
+      if (leftIsDate !== rightIsDate && (operator === '+' || leftIsDate)) return serialToDate(result);
+      return result;
+    }
+    case '*':
+      return a * b;
+    case '/':
+      return b === 0 ? formulaError('#DIV/0!') : a / b;
+    default: {
+      const result = Math.pow(a, b);
+      return Number.isFinite(result) ? result : formulaError('#NUM!');
+    }
+  }
+};
+
+const evaluateNode = (node: FormulaNode, context: FormulaContext): FormulaValue => {
+  switch (node.type) {
+    case 'number':
+    case 'string':
+    case 'boolean':
+      return node.value;
+    case 'error':
+      return formulaError(node.error);
+    case 'ref':
+      return context.getCell(node.address);
+    case 'range':
+      // A range only makes sense as a function argument
+      return formulaError('#VALUE!');
+    case 'unary': {
+      const operand = toNumber(evaluateNode(node.operand, context));
+      if (isFormulaError(operand)) return operand;
+      if (node.operator === '%') return operand / 100;
+      return node.operator === '-' ? -operand : operand;
+    }
+    case 'binary':
+      return evaluateBinary(node.operator, evaluateNode(node.left, context), evaluateNode(node.right, context));
+    case 'call': {
+      // IF only evaluates the branch it returns
+      if (node.name === 'IF') {
+        if (node.args.length < 2 || node.args.length > 3) return formulaError('#VALUE!');
+        const condition = toBoolean(evaluateNode(node.args[0], context));
+        if (isFormulaError(condition)) return condition;
+        if (condition) return evaluateNode(node.args[1], context);
+        return node.args[2] ? evaluateNode(node.args[2], context) : false;
+      }
+
+      const fn = FUNCTIONS[node.name];
+      if (!fn) return formulaError('#NAME?');
+      const args: FormulaArg[] = [];
+      for (const arg of node.args) {
+        const value = arg.type === 'range' ? context.getRange(arg.start, arg.end) : evaluateNode(arg, context);
+        if (!Array.isArray(value) && isFormulaError(value) && arg.type === 'range') return value;
+        args.push(value);
+      }
+      return fn(args);
+    }
+  }
+};
+
+export const evaluateFormula = evaluateNode;
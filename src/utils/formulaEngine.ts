@@ -0,0 +1,200 @@
+import type { SpreadsheetRow } from '../types';
+import { parseFormula, evaluateFormula, collectReferences, isFormula, formatFormulaValue } from './formula';
+import type { CellAddress, FormulaContext, FormulaNode, FormulaValue } from './formula';
+
+export interface FormulaEngine {
+  // Bring the engine up to date with the table; adding, removing or reordering
+  // rows or columns rebuilds the graph, other edits only recalculate what changed
+  sync: (rows: SpreadsheetRow[], fields: string[]) => void;
+  // Record a single edit and recalculate the formulas that depend on it
+  setCell: (rowId: number, field: string, value: string) => void;
+  // Computed value of a formula cell, undefined for plain cells
+  getValue: (rowId: number, field: string) => FormulaValue | undefined;
+}
+
+const cellKey = (rowId: number, field: string) => `${rowId}:${field}`;
+
+const splitKey = (key: string): [number, string] => {
+  const separator = key.indexOf(':');
+  return [Number(key.slice(0, separator)), key.slice(separator + 1)];
+};
+
+export const createFormulaEngine = (): FormulaEngine => {
+  let fields: string[] = [];
+  let rowsById = new Map<number, SpreadsheetRow>();
+  let sortedRowIds: number[] = [];
+  let signature = '';
+
+  const formulas = new Map<string, FormulaNode>();
+  // Cells each formula reads, and the formulas reading each cell
+  const precedents = new Map<string, string[]>();
+  const dependents = new Map<string, Set<string>>();
+  const values = new Map<string, FormulaValue>();
+
+  const rawValue = (rowId: number, field: string) => String(rowsById.get(rowId)?.[field] ?? '');
+
+  // Existing cells in a range; rows are matched by id, so gaps left by deleted rows are skipped
+  const rangeKeys = (start: CellAddress, end: CellAddress): string[] | null => {
+    const [firstCol, lastCol] = [Math.min(start.col, end.col), Math.max(start.col, end.col)];
+    const [firstRow, lastRow] = [Math.min(start.row, end.row), Math.max(start.row, end.row)];
+    if (lastCol >= fields.length) return null;
+
+    const keys: string[] = [];
+    sortedRowIds
+      .filter(id => id >= firstRow && id <= lastRow)
+      .forEach(id => {
+        for (let col = firstCol; col <= lastCol; col++) keys.push(cellKey(id, fields[col]));
+      });
+    return keys;
+  };
+
+  const unlink = (key: string) => {
+    precedents.get(key)?.forEach(precedent => dependents.get(precedent)?.delete(key));
+    precedents.delete(key);
+    formulas.delete(key);
+    values.delete(key);
+  };
+
+  const link = (key: string) => {
+    const [rowId, field] = splitKey(key);
+    const raw = rawValue(rowId, field);
+    if (!isFormula(raw)) return;
+
+    const node = parseFormula(raw);
+    const reads = collectReferences(node).flatMap(ref => {
+      if (ref.type === 'range') return rangeKeys(ref.start, ref.end) ?? [];
+      const refField = fields[ref.address.col];
+      return refField ? [cellKey(ref.address.row, refField)] : [];
+    });
+
+    formulas.set(key, node);
+    precedents.set(key, reads);
+    reads.forEach(read => {
+      if (!dependents.has(read)) dependents.set(read, new Set());
+      dependents.get(read)!.add(key);
+    });
+  };
+
+  // Evaluate the given formula cells, pulling in any stale precedents first
+  const recalculate = (dirty: Iterable<string>) => {
+    const pending = new Set(Array.from(dirty).filter(key => formulas.has(key)));
+    const evaluating = new Set<string>();
+
+    const evaluateKey = (key: string): FormulaValue => {
+      if (!pending.has(key)) return values.get(key) ?? '';
+      // Reaching a cell that is still being evaluated means the formulas form a loop
+      if (evaluating.has(key)) return { error: '#CYCLE!' };
+
+      evaluating.add(key);
+      const value = evaluateFormula(formulas.get(key)!, context);
+      evaluating.delete(key);
+      pending.delete(key);
+      values.set(key, value);
+      return value;
+    };
+
+    const readCell = (rowId: number, field: string): FormulaValue => {
+      const key = cellKey(rowId, field);
+      return formulas.has(key) ? evaluateKey(key) : rawValue(rowId, field);
+    };
+
+    const context: FormulaContext = {
+      getCell: address => {
+        const field = fields[address.col];
+        if (!field || !rowsById.has(address.row)) return { error: '#REF!' };
+        return readCell(address.row, field);
+      },
+      getRange: (start, end) => {
+        const keys = rangeKeys(start, end);
+        if (!keys) return { error: '#REF!' };
+        return keys.map(key => readCell(...splitKey(key)));
+      },
+    };
+
+    pending.forEach(key => evaluateKey(key));
+  };
+
+  // The changed cells plus every formula that reads them, directly or indirectly
+  const affectedBy = (changed: string[]) => {
+    const affected = new Set<string>();
+    const queue = [...changed];
+    while (queue.length > 0) {
+      const key = queue.pop()!;
+      if (affected.has(key)) continue;
+      affected.add(key);
+      dependents.get(key)?.forEach(dependent => queue.push(dependent));
+    }
+    return affected;
+  };
+
+  const applyChanges = (changed: string[]) => {
+    if (changed.length === 0) return;
+    changed.forEach(key => {
+      unlink(key);
+      link(key);
+    });
+    recalculate(affectedBy(changed));
+  };
+
+  const load = (rows: SpreadsheetRow[], nextFields: string[]) => {
+    fields = nextFields;
+    rowsById = new Map(rows.map(row => [row.id, row]));
+    sortedRowIds = rows.map(row => row.id).sort((a, b) => a - b);
+    formulas.clear();
+    precedents.clear();
+    dependents.clear();
+    values.clear();
+
+    rows.forEach(row => fields.forEach(field => link(cellKey(row.id, field))));
+    recalculate(formulas.keys());
+  };
+
+  return {
+    sync: (rows, nextFields) => {
+      const nextSignature = `${nextFields.join('\u0000')}|${rows.map(row => row.id).sort((a, b) => a - b).join(',')}`;
+      if (nextSignature !== signature) {
+        signature = nextSignature;
+        load(rows, nextFields);
+        return;
+      }
+
+      const changed: string[] = [];
+      rows.forEach(row => {
+        const previous = rowsById.get(row.id);
+        if (previous === row) return;
+        fields.forEach(field => {
+          if (String(previous?.[field] ?? '') !== String(row[field] ?? '')) changed.push(cellKey(row.id, field));
+        });
+        rowsById.set(row.id, row);
+      });
+      applyChanges(changed);
+    },
+
+    setCell: (rowId, field, value) => {
+      const row = rowsById.get(rowId);
+      if (!row || !fields.includes(field) || rawValue(rowId, field) === value) return;
+      rowsById.set(rowId, { ...row, [field]: value });
+      applyChanges([cellKey(rowId, field)]);
+    },
+
+    getValue: (rowId, field) => values.get(cellKey(rowId, field)),
+  };
+};
+
+// Rows with every formula replaced by its displayed result, for exports
+export const evaluateFormulaCells = (rows: SpreadsheetRow[], fields: string[]): SpreadsheetRow[] => {
+  const engine = createFormulaEngine();
+  engine.sync(rows, fields);
+
+  return rows.map(row => {
+    const formulaFields = fields.filter(field => isFormula(String(row[field] ?? '')));
+    if (formulaFields.length === 0) return row;
+
+    const evaluated = { ...row };
+    formulaFields.forEach(field => {
+      const value = engine.getValue(row.id, field);
+      evaluated[field] = value === undefined ? '' : formatFormulaValue(value);
+    });
+    return evaluated;
+  });
+};
@@ -0,0 +1,113 @@
+import type { SpreadsheetRow, CustomColumn } from '../types';
+import type { BuiltInColumnState } from './columns';
+import type { SavedView } from './storage';
+
+type RowValues = Record<string, SpreadsheetRow[string] | undefined>;
+
+// One reversible change to the rows; indexes let undo put removed rows back in place
+export type RowChange =
+  | { type: 'insert'; index: number; row: SpreadsheetRow }
+  | { type: 'remove'; index: number; row: SpreadsheetRow }
+  | { type: 'update'; rowId: number; before: RowValues; after: RowValues };
+
+// Everything a single user action changed, undone and redone as one step
+export interface HistoryEntry {
+  label: string;
+  rows: RowChange[];
+  columns?: { before: CustomColumn[]; after: CustomColumn[] };
+  builtInColumns?: { before: BuiltInColumnState[]; after: BuiltInColumnState[] };
+  widths?: { before: number[]; after: number[] };
+  // The views the change touched; undo and redo put back only these, by id
+  views?: { before: SavedView[]; after: SavedView[] };
+}
+
+export const MAX_HISTORY = 100;
+
+// Describe the difference between two versions of the rows, matching rows by id
+export const diffRows = (before: SpreadsheetRow[], after: SpreadsheetRow[]): RowChange[] => {
+  const beforeById = new Map(before.map(row => [row.id, row]));
+  const afterIds = new Set(after.map(row => row.id));
+  const changes: RowChange[] = [];
+
+  after.forEach(row => {
+    const previous = beforeById.get(row.id);
+    if (!previous || previous === row) return;
+
+    const beforeValues: RowValues = {};
+    const afterValues: RowValues = {};
+    new Set([...Object.keys(previous), ...Object.keys(row)]).forEach(key => {
+      if (previous[key] !== row[key]) {
+        beforeValues[key] = previous[key];
+        afterValues[key] = row[key];
+      }
+    });
+    if (Object.keys(afterValues).length > 0) {
+      changes.push({ type: 'update', rowId: row.id, before: beforeValues, after: afterValues });
+    }
+  });
+
+  before.forEach((row, index) => {
+    if (!afterIds.has(row.id)) changes.push({ type: 'remove', index, row });
+  });
+  after.forEach((row, index) => {
+    if (!beforeById.has(row.id)) changes.push({ type: 'insert', index, row });
+  });
+
+  return changes;
+};
+
+const assignValues = (row: SpreadsheetRow, values: RowValues): SpreadsheetRow => {
+  const next = { ...row };
+  Object.entries(values).forEach(([key, value]) => {
+    if (value === undefined) {
+      delete next[key];
+    } else {
+      next[key] = value;
+    }
+  });
+  return next;
+};
+
+type RowPlacement = Extract<RowChange, { type: 'insert' | 'remove' }>;
+
+const isPlacement = (change: RowChange): change is RowPlacement => change.type !== 'update';
+
+// Replay changes forwards (redo) or backwards (undo) on the current rows
+export const applyRowChanges = (
+  rows: SpreadsheetRow[],
+  changes: RowChange[],
+  direction: 'undo' | 'redo'
+): SpreadsheetRow[] => {
+  const placements = changes.filter(isPlacement);
+  const added = placements.filter(change => change.type === (direction === 'redo' ? 'insert' : 'remove'));
+  const droppedIds = new Set(
+    placements
+      .filter(change => change.type === (direction === 'redo' ? 'remove' : 'insert'))
+      .map(change => change.row.id)
+  );
+  const updates = new Map<number, RowValues>();
+  changes.forEach(change => {
+    if (change.type === 'update') updates.set(change.rowId, direction === 'redo' ? change.after : change.before);
+  });
+
+  const next = rows
+    .filter(row => !droppedIds.has(row.id))
+    .map(row => (updates.has(row.id) ? assignValues(row, updates.get(row.id)!) : row));
+
+  // Insert in ascending index order so each index refers to the finished array
+  [...added]
+    .sort((a, b) => a.index - b.index)
+    .forEach(change => next.splice(Math.min(change.index, next.length), 0, change.row));
+
+  return next;
+};
+
+// Describe rows moved to new places, which matching by id can't see: the moved rows are taken
+// out at their old indexes and put back at their new ones
+export const diffRowMove = (before: SpreadsheetRow[], after: SpreadsheetRow[], rowIds: number[]): RowChange[] => {
+  const moved = new Set(rowIds);
+  return [
+    ...before.flatMap((row, index): RowChange[] => (moved.has(row.id) ? [{ type: 'remove', index, row }] : [])),
+    ...after.flatMap((row, index): RowChange[] => (moved.has(row.id) ? [{ type: 'insert', index, row }] : [])),
+  ];
+};
@@ -0,0 +1,137 @@
+import type { SpreadsheetRow, CustomColumn } from '../types';
+import { coerceStatus, coercePriority, normalizeDate, createColumnId } from './rows';
+import { DEFAULT_BUILT_IN_COLUMNS } from './columns';
+import type { BuiltInColumnState } from './columns';
+import { coerceCustomValue } from './columnTypes';
+
+export interface ImportSheet {
+  name: string;
+  rows: string[][];
+}
+
+// Raw CSV text is parsed in the dialog so the delimiter can be changed;
+// workbook formats arrive already split into sheets
+export type ImportSource =
+  | { kind: 'csv'; text: string }
+  | { kind: 'xlsx'; sheets: ImportSheet[] };
+
+// '' skips the column, 'custom:<id>' targets an existing custom column,
+// 'new:<name>' creates a custom column and anything else is a built-in field key
+export type ImportTarget = string;
+
+export interface ImportIssue {
+  row: number;
+  column: string;
+  message: string;
+}
+
+const normalizeHeader = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Match each source header to a built-in field, an existing custom column or a new one
+export const suggestImportMapping = (
+  headers: string[],
+  customColumns: CustomColumn[],
+  builtInColumns: BuiltInColumnState[] = DEFAULT_BUILT_IN_COLUMNS
+): ImportTarget[] => {
+  const used = new Set<string>();
+
+  return headers.map(header => {
+    const token = normalizeHeader(header);
+    if (!token) return '';
+
+    const baseMatch = builtInColumns.find(
+      field => normalizeHeader(field.id) === token || normalizeHeader(field.label) === token
+    );
+    if (baseMatch && !used.has(baseMatch.id)) {
+      used.add(baseMatch.id);
+      return baseMatch.id;
+    }
+
+    const customMatch = customColumns.find(col => normalizeHeader(col.name) === token);
+    if (customMatch && !used.has(`custom:${customMatch.id}`)) {
+      used.add(`custom:${customMatch.id}`);
+      return `custom:${customMatch.id}`;
+    }
+
+    return `new:${header.trim()}`;
+  });
+};
+
+const DATE_FIELDS = ['submitted', 'dueDate'];
+
+// Convert source rows into partial SpreadsheetRows using the chosen mapping
+export const buildImportRecords = (
+  rows: string[][],
+  mapping: ImportTarget[],
+  customColumns: CustomColumn[]
+): { records: Partial<SpreadsheetRow>[]; newColumns: CustomColumn[]; issues: ImportIssue[] } => {
+  // Columns created by the import start out as plain text
+  const takenIds = customColumns.map(col => col.id);
+  const newColumns: CustomColumn[] = Array.from(
+    new Set(mapping.filter(target => target.startsWith('new:')).map(target => target.slice(4)))
+  ).filter(Boolean).map(name => {
+    const id = createColumnId(takenIds);
+    takenIds.push(id);
+    return { id, name, type: 'text' };
+  });
+  const issues: ImportIssue[] = [];
+
+  const records = rows.map((cells, rowIndex) => {
+    const record: Partial<SpreadsheetRow> = {};
+
+    mapping.forEach((target, colIndex) => {
+      if (!target) return;
+      const raw = (cells[colIndex] ?? '').trim();
+
+      if (target.startsWith('new:')) {
+        const column = newColumns.find(col => col.name === target.slice(4));
+        if (column) record[column.id] = raw;
+        return;
+      }
+
+      if (target.startsWith('custom:')) {
+        const column = customColumns.find(col => col.id === target.slice(7));
+        if (!column) return;
+
+        const { value, valid } = coerceCustomValue(column, raw);
+        if (!valid) {
+          issues.push({ row: rowIndex + 1, column: column.name, message: `"${raw}" is not a valid ${column.type} value` });
+        }
+        record[column.id] = valid ? value : '';
+        return;
+      }
+
+      if (target === 'status') {
+        const status = coerceStatus(raw);
+        if (status) {
+          record.status = status;
+        } else if (raw) {
+          issues.push({ row: rowIndex + 1, column: 'Status', message: `"${raw}" is not a valid status` });
+        }
+        return;
+      }
+
+      if (target === 'priority') {
+        const priority = coercePriority(raw);
+        if (priority) {
+          record.priority = priority;
+        } else if (raw) {
+          issues.push({ row: rowIndex + 1, column: 'Priority', message: `"${raw}" is not a valid priority` });
+        }
+        return;
+      }
+
+      if (target === 'estValue' && /^-?\d+(\.\d+)?$/.test(raw)) {
+        // Spreadsheet numbers arrive unformatted; match the table's thousands separators
+        record.estValue = Number(raw).toLocaleString('en-US');
+        return;
+      }
+
+      record[target] = DATE_FIELDS.includes(target) ? normalizeDate(raw) : raw;
+    });
+
+    return record;
+  });
+
+  return { records, newColumns, issues };
+};
@@ -0,0 +1,79 @@
+import type { Priority, SpreadsheetRow, CustomColumn } from '../types';
+import type { SortField, SortKey } from '../App';
+import { compareCustomValues } from './columnTypes';
+import { createRowFilter } from './filters';
+import type { FilterGroup } from './filters';
+
+export interface RowProcessingOptions {
+  filter: FilterGroup;
+  sortKeys: SortKey[];
+}
+
+// Compare two rows on one field in ascending order
+const compareField = (a: SpreadsheetRow, b: SpreadsheetRow, sortField: SortField, customColumn?: CustomColumn): number => {
+  if (customColumn) {
+    return compareCustomValues(customColumn, String(a[sortField] ?? ''), String(b[sortField] ?? ''));
+  }
+
+  let aValue: string | number | Date = a[sortField as keyof SpreadsheetRow] as string;
+  let bValue: string | number | Date = b[sortField as keyof SpreadsheetRow] as string;
+
+  // Handle different data types
+  if (sortField === 'submitted' || sortField === 'dueDate') {
+    // Date sorting
+    aValue = new Date(aValue.split('-').reverse().join('-'));
+    bValue = new Date(bValue.split('-').reverse().join('-'));
+  } else if (sortField === 'estValue') {
+    // Numeric sorting (remove commas)
+    aValue = parseFloat(String(aValue).replace(/,/g, '')) || 0;
+    bValue = parseFloat(String(bValue).replace(/,/g, '')) || 0;
+  } else if (sortField === 'priority') {
+    // Priority sorting (High > Medium > Low)
+    const priorityOrder = { 'High': 3, 'Medium': 2, 'Low': 1 };
+    aValue = priorityOrder[aValue as Priority] || 0;
+    bValue = priorityOrder[bValue as Priority] || 0;
+  } else {
+    // String sorting
+    aValue = String(aValue).toLowerCase();
+    bValue = String(bValue).toLowerCase();
+  }
+
+  if (aValue < bValue) return -1;
+  if (aValue > bValue) return 1;
+  return 0;
+};
+
+// Sort a copy of the rows: each key breaks ties left by the ones before it, and rows that
+// compare equal on every key keep their original order
+export const sortRows = (
+  rows: SpreadsheetRow[],
+  sortKeys: SortKey[],
+  customColumns: CustomColumn[] = []
+): SpreadsheetRow[] => {
+  const findCustomColumn = (field: string) => customColumns.find(col => col.id === field);
+  const sorted = [...rows];
+
+  if (sortKeys.length > 0) {
+    const keys = sortKeys.map(key => ({ ...key, customColumn: findCustomColumn(key.field) }));
+    const positions = new Map(rows.map((row, index) => [row, index]));
+    sorted.sort((a, b) => {
+      for (const { field, order, customColumn } of keys) {
+        const result = compareField(a, b, field, customColumn);
+        if (result !== 0) return order === 'asc' ? result : -result;
+      }
+      return positions.get(a)! - positions.get(b)!;
+    });
+  }
+
+  return sorted;
+};
+
+// Apply the active filter and sort to the table data
+export const filterAndSortRows = (
+  data: SpreadsheetRow[],
+  { filter, sortKeys }: RowProcessingOptions,
+  customColumns: CustomColumn[] = []
+): SpreadsheetRow[] => {
+  const filtered = filter.children.length > 0 ? data.filter(createRowFilter(filter, customColumns)) : data;
+  return sortRows(filtered, sortKeys, customColumns);
+};
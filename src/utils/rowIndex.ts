@@ -0,0 +1,145 @@
+import type { SpreadsheetRow, CustomColumn } from '../types';
+import type { SortKey } from '../App';
+import { sortRows } from './processRows';
+import { getWorkbookFields } from './columns';
+import type { BuiltInColumnState } from './columns';
+import { parseSearchQuery, createSearchMatcher } from './searchQuery';
+import { createRowFilter, getFilterFields } from './filters';
+import type { FilterGroup } from './filters';
+
+// A row together with the lowercased text each workbook field shows, in workbook field order
+export interface IndexedRow {
+  row: SpreadsheetRow;
+  texts: string[];
+}
+
+// Changes since the last update: rows added or edited, rows removed and the new row order,
+// or null when it is unchanged. A reset replaces the whole index, e.g. when the columns change
+export interface RowIndexUpdate {
+  reset: boolean;
+  customColumns: CustomColumn[];
+  builtInColumns: BuiltInColumnState[];
+  upserts: IndexedRow[];
+  removedIds: number[];
+  order: number[] | null;
+}
+
+export interface RowQuery {
+  requestId: number;
+  filter: FilterGroup;
+  sortKeys: SortKey[];
+  searchTerm: string;
+  // Fields searched, usually the visible ones
+  fields: string[];
+  // Turn the search into a row filter as well
+  matchingRowsOnly: boolean;
+}
+
+// Rows that match the search, with the searched fields that matched; rows matched only
+// through other fields or exclusions have none
+export interface SearchMatch {
+  rowId: number;
+  fields: string[];
+}
+
+export interface RowQueryResult {
+  requestId: number;
+  rowIds: number[];
+  matches: SearchMatch[];
+  matchCount: number;
+}
+
+export type RowPipelineMessage =
+  | { type: 'update'; update: RowIndexUpdate }
+  | { type: 'query'; query: RowQuery };
+
+// Adding to a search of plain words can only drop matches. Quotes, exclusions, field
+// terms and OR can let in rows the shorter search left out
+const isPlainSearch = (searchTerm: string) =>
+  !/["\-:<>=]/.test(searchTerm) && !/(^|\s)OR(\s|$)/.test(searchTerm);
+
+// The rows behind the table, kept up to date with incremental updates so each query only
+// filters, sorts and searches instead of re-reading every cell
+export const createRowIndex = () => {
+  let customColumns: CustomColumn[] = [];
+  let builtInColumns: BuiltInColumnState[] = [];
+  let fields: string[] = [];
+  let order: number[] = [];
+  const entries = new Map<number, IndexedRow>();
+
+  // Work kept until the rows change: the row order under each sort asked for, the rows the
+  // latest filter left, and the latest search, so a query that only changes one of them
+  // doesn't redo the others
+  const sortedIds = new Map<string, number[]>();
+  let filtered: { key: string; rowIds: number[] } | null = null;
+  let lastSearch: { key: string; searchTerm: string; matches: SearchMatch[] } | null = null;
+
+  const apply = (update: RowIndexUpdate) => {
+    if (update.reset) {
+      entries.clear();
+      customColumns = update.customColumns;
+      builtInColumns = update.builtInColumns;
+      fields = getWorkbookFields(customColumns, builtInColumns);
+    }
+    update.removedIds.forEach(id => entries.delete(id));
+    update.upserts.forEach(entry => entries.set(entry.row.id, entry));
+    if (update.order) order = update.order;
+    sortedIds.clear();
+    filtered = null;
+    lastSearch = null;
+  };
+
+  const getSortedIds = (sortKeys: SortKey[]) => {
+    const key = JSON.stringify(sortKeys);
+    let ids = sortedIds.get(key);
+    if (!ids) {
+      const rows = order.flatMap(id => entries.get(id)?.row ?? []);
+      ids = sortRows(rows, sortKeys, customColumns).map(row => row.id);
+      sortedIds.set(key, ids);
+    }
+    return ids;
+  };
+
+  // Sorting is stable, so filtering the sorted rows gives the same order as sorting the filtered ones
+  const getFilteredIds = (filter: FilterGroup, sortKeys: SortKey[]) => {
+    const key = JSON.stringify([filter, sortKeys]);
+    if (filtered?.key !== key) {
+      const ids = getSortedIds(sortKeys);
+      const matchesFilter = createRowFilter(filter, customColumns);
+      filtered = {
+        key,
+        rowIds: filter.children.length > 0 ? ids.filter(id => matchesFilter(entries.get(id)!.row)) : ids,
+      };
+    }
+    return filtered.rowIds;
+  };
+
+  const run = ({ requestId, filter, sortKeys, searchTerm, fields: searchFields, matchingRowsOnly }: RowQuery): RowQueryResult => {
+    const rowIds = getFilteredIds(filter, sortKeys);
+
+    const matches: SearchMatch[] = [];
+    let matchCount = 0;
+    // Searches with syntax errors match nothing
+    const { query } = parseSearchQuery(searchTerm, getFilterFields(customColumns, builtInColumns));
+    const searchKey = JSON.stringify([filter, sortKeys, searchFields]);
+    if (query) {
+      const narrows = lastSearch?.key === searchKey && searchTerm.startsWith(lastSearch.searchTerm) && isPlainSearch(searchTerm);
+      const candidates = narrows ? lastSearch!.matches.map(match => match.rowId) : rowIds;
+      const matchRow = createSearchMatcher(query, customColumns, searchFields);
+      const fieldIndexes = new Map(fields.map((field, index) => [field, index]));
+      candidates.forEach(rowId => {
+        const { row, texts } = entries.get(rowId)!;
+        const matched = matchRow(row, field => texts[fieldIndexes.get(field) ?? -1] ?? '');
+        if (!matched) return;
+        matches.push({ rowId, fields: matched });
+        matchCount += matched.length;
+      });
+    }
+    lastSearch = query ? { key: searchKey, searchTerm, matches } : null;
+
+    const isFiltering = matchingRowsOnly && searchTerm.trim() !== '';
+    return { requestId, rowIds: isFiltering ? matches.map(match => match.rowId) : rowIds, matches, matchCount };
+  };
+
+  return { apply, run };
+};
@@ -0,0 +1,96 @@
+import type { SpreadsheetRow, CustomColumn } from '../types';
+import { createRowIndex } from './rowIndex';
+import type { IndexedRow, RowPipelineMessage, RowQuery, RowQueryResult } from './rowIndex';
+import { getWorkbookFields } from './columns';
+import type { BuiltInColumnState } from './columns';
+import { isFormula } from './formula';
+
+export interface RowPipeline {
+  // Send the rows that changed since the last sync; getCellText gives the text a cell shows
+  sync: (
+    rows: SpreadsheetRow[],
+    customColumns: CustomColumn[],
+    builtInColumns: BuiltInColumnState[],
+    getCellText: (row: SpreadsheetRow, field: string) => string
+  ) => void;
+  // Filter, sort and search the synced rows; only the result of the latest query is reported
+  query: (query: Omit<RowQuery, 'requestId'>) => void;
+  dispose: () => void;
+}
+
+// Runs the filter, sort and search pipeline in a Web Worker, or on the main thread where
+// workers are unavailable
+export const createRowPipeline = (onResult: (result: RowQueryResult) => void): RowPipeline => {
+  let latestRequestId = 0;
+  let syncedColumns: CustomColumn[] | null = null;
+  let syncedBuiltInColumns: BuiltInColumnState[] | null = null;
+  let syncedRows = new Map<number, SpreadsheetRow>();
+  let syncedOrder: number[] = [];
+  // Texts last sent for rows with formulas. Formula results can change when other rows
+  // change, so these are the only unchanged rows whose texts are read again
+  let formulaTexts = new Map<number, string[]>();
+
+  const handleResult = (result: RowQueryResult) => {
+    // Results of queries that were superseded while running are stale
+    if (result.requestId === latestRequestId) onResult(result);
+  };
+
+  let post: (message: RowPipelineMessage) => void;
+  let dispose = () => {};
+  if (typeof Worker !== 'undefined') {
+    const worker = new Worker(new URL('./rowPipeline.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<RowQueryResult>) => handleResult(event.data);
+    worker.onerror = (event) => console.error('Row pipeline worker failed:', event.message);
+    post = message => worker.postMessage(message);
+    dispose = () => worker.terminate();
+  } else {
+    const index = createRowIndex();
+    post = message => {
+      if (message.type === 'update') index.apply(message.update);
+      else handleResult(index.run(message.query));
+    };
+  }
+
+  const sync: RowPipeline['sync'] = (rows, customColumns, builtInColumns, getCellText) => {
+    const fields = getWorkbookFields(customColumns, builtInColumns);
+    const reset = customColumns !== syncedColumns || builtInColumns !== syncedBuiltInColumns;
+    const getTexts = (row: SpreadsheetRow) => fields.map(field => getCellText(row, field).toLowerCase());
+
+    const upserts: IndexedRow[] = [];
+    const nextRows = new Map<number, SpreadsheetRow>();
+    const nextFormulaTexts = new Map<number, string[]>();
+    rows.forEach(row => {
+      nextRows.set(row.id, row);
+      const previousTexts = reset ? undefined : formulaTexts.get(row.id);
+      if (!reset && syncedRows.get(row.id) === row) {
+        if (!previousTexts) return;
+        const texts = getTexts(row);
+        nextFormulaTexts.set(row.id, texts);
+        if (texts.some((text, index) => text !== previousTexts[index])) upserts.push({ row, texts });
+        return;
+      }
+      const texts = getTexts(row);
+      if (fields.some(field => isFormula(String(row[field] ?? '')))) nextFormulaTexts.set(row.id, texts);
+      upserts.push({ row, texts });
+    });
+    const removedIds = reset ? [] : [...syncedRows.keys()].filter(id => !nextRows.has(id));
+    const orderChanged = reset || rows.length !== syncedOrder.length || rows.some((row, index) => row.id !== syncedOrder[index]);
+
+    if (reset || upserts.length > 0 || removedIds.length > 0 || orderChanged) {
+      const order = orderChanged ? rows.map(row => row.id) : null;
+      post({ type: 'update', update: { reset, customColumns, builtInColumns, upserts, removedIds, order } });
+      if (order) syncedOrder = order;
+    }
+    syncedColumns = customColumns;
+    syncedBuiltInColumns = builtInColumns;
+    syncedRows = nextRows;
+    formulaTexts = nextFormulaTexts;
+  };
+
+  const query: RowPipeline['query'] = options => {
+    latestRequestId++;
+    post({ type: 'query', query: { ...options, requestId: latestRequestId } });
+  };
+
+  return { sync, query, dispose };
+};
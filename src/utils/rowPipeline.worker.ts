@@ -0,0 +1,25 @@
+import { createRowIndex } from './rowIndex';
+import type { RowPipelineMessage, RowQuery } from './rowIndex';
+
+const index = createRowIndex();
+let pendingQuery: RowQuery | null = null;
+
+// Updates apply in order, but a query only runs once the messages queued behind it are
+// read, so a query overtaken by a newer one is dropped without running
+const runPendingQuery = () => {
+  if (!pendingQuery) return;
+  const query = pendingQuery;
+  pendingQuery = null;
+  self.postMessage(index.run(query));
+};
+
+self.onmessage = (event: MessageEvent<RowPipelineMessage>) => {
+  const message = event.data;
+  if (message.type === 'update') {
+    index.apply(message.update);
+    return;
+  }
+
+  if (!pendingQuery) setTimeout(runPendingQuery, 0);
+  pendingQuery = message.query;
+};
@@ -0,0 +1,167 @@
+import type { Status, Priority, SpreadsheetRow, CustomColumn } from '../types';
+
+export const STATUS_VALUES: Status[] = ['in-progress', 'need to start', 'complete', 'blocked'];
+
+export const PRIORITY_VALUES: Priority[] = ['High', 'Medium', 'Low'];
+
+const normalizeToken = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Accept labels like "In Progress", "in-process" or "To do" as well as the raw union values
+export const coerceStatus = (value: string): Status | null => {
+  const token = normalizeToken(value);
+  const aliases: Record<string, Status> = {
+    inprogress: 'in-progress',
+    inprocess: 'in-progress',
+    started: 'in-progress',
+    needtostart: 'need to start',
+    notstarted: 'need to start',
+    todo: 'need to start',
+    complete: 'complete',
+    completed: 'complete',
+    done: 'complete',
+    blocked: 'blocked',
+  };
+  return aliases[token] ?? null;
+};
+
+export const coercePriority = (value: string): Priority | null => {
+  const token = normalizeToken(value);
+  return PRIORITY_VALUES.find(priority => priority.toLowerCase() === token) ?? null;
+};
+
+// Convert DD/MM/YYYY, DD.MM.YYYY and ISO YYYY-MM-DD dates to the DD-MM-YYYY convention
+export const normalizeDate = (value: string): string => {
+  const trimmed = value.trim();
+  const iso = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (iso) {
+    return `${iso[3].padStart(2, '0')}-${iso[2].padStart(2, '0')}-${iso[1]}`;
+  }
+  const dmy = trimmed.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})$/);
+  if (dmy) {
+    return `${dmy[1].padStart(2, '0')}-${dmy[2].padStart(2, '0')}-${dmy[3]}`;
+  }
+  return trimmed;
+};
+
+// Parse a DD-MM-YYYY cell value into a local Date
+export const parseDisplayDate = (value: string): Date | null => {
+  const match = value.trim().match(/^(\d{1,2})-(\d{1,2})-(\d{4})$/);
+  if (!match) return null;
+  const [day, month, year] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  const date = new Date(year, month - 1, day);
+  // Reject dates such as 31-02-2024 that Date would roll over
+  return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+};
+
+export const formatDisplayDate = (date: Date) =>
+  `${String(date.getDate()).padStart(2, '0')}-${String(date.getMonth() + 1).padStart(2, '0')}-${date.getFullYear()}`;
+
+// Field key older versions derived from a custom column's name and stored its values under
+export const getCustomFieldKey = (columnName: string) =>
+  columnName.toLowerCase().replace(/\s+/g, '');
+
+// New id for a custom column, not among the taken ones. Ids never change once given,
+// so renaming a column leaves its values where they are
+export const createColumnId = (takenIds: string[]) => {
+  const base = `col-${Date.now().toString(36)}`;
+  let id = base;
+  let suffix = 2;
+  while (takenIds.includes(id)) id = `${base}-${suffix++}`;
+  return id;
+};
+
+// Arrange fields in a view's column order. Fields the order does not list, such as
+// columns added after it was saved, stay next to their neighbour in the workbook
+export const orderFields = (fields: string[], columnOrder: string[]): string[] => {
+  const ordered = columnOrder.filter(field => fields.includes(field));
+  fields.forEach((field, index) => {
+    if (ordered.includes(field)) return;
+    const previous = fields.slice(0, index).reverse().find(candidate => ordered.includes(candidate));
+    ordered.splice(previous === undefined ? 0 : ordered.indexOf(previous) + 1, 0, field);
+  });
+  return ordered;
+};
+
+// Move a field in a column order so it comes just before another, or last when there is none
+export const moveField = (order: string[], field: string, before: string | null): string[] => {
+  const next = order.filter(candidate => candidate !== field);
+  const index = before === null ? -1 : next.indexOf(before);
+  next.splice(index === -1 ? next.length : index, 0, field);
+  return next;
+};
+
+// Build a blank row with empty values for every custom column
+export const createEmptyRow = (id: number, customColumns: CustomColumn[]): SpreadsheetRow => {
+  const row: SpreadsheetRow = {
+    id,
+    jobRequest: '',
+    submitted: new Date().toLocaleDateString('en-GB').replace(/\//g, '-'),
+    status: 'need to start',
+    submitter: '',
+    url: '',
+    assigned: '',
+    priority: 'Medium',
+    dueDate: '',
+    estValue: ''
+  };
+
+  customColumns.forEach(col => {
+    row[col.id] = '';
+  });
+
+  return row;
+};
+
+// One more than the highest id. A loop rather than Math.max(...ids), which overflows the
+// call stack on very large sheets
+export const getNextRowId = (rows: SpreadsheetRow[]) =>
+  rows.reduce((max, row) => Math.max(max, row.id), 0) + 1;
+
+export type ImportMode = 'replace' | 'append';
+
+// Turn imported records into full rows, either replacing or following the existing data
+export const mergeImportedRows = (
+  existingRows: SpreadsheetRow[],
+  existingColumns: CustomColumn[],
+  records: Partial<SpreadsheetRow>[],
+  newColumns: CustomColumn[],
+  mode: ImportMode
+): { rows: SpreadsheetRow[]; customColumns: CustomColumn[] } => {
+  // Imported columns named like an existing one fill it; the others are added, under a new id
+  // when theirs is already taken
+  const takenIds = existingColumns.map(col => col.id);
+  const idMap = new Map<string, string>();
+  const addedColumns: CustomColumn[] = [];
+  newColumns.forEach(col => {
+    const existing = existingColumns.find(other => other.name === col.name);
+    if (existing) {
+      idMap.set(col.id, existing.id);
+      return;
+    }
+    const id = takenIds.includes(col.id) ? createColumnId(takenIds) : col.id;
+    takenIds.push(id);
+    idMap.set(col.id, id);
+    addedColumns.push({ ...col, id });
+  });
+  const customColumns = [...existingColumns, ...addedColumns];
+  const addedFields = addedColumns.map(col => col.id);
+
+  const baseRows = mode === 'replace'
+    ? []
+    : existingRows.map(row => {
+        const extended = { ...row };
+        addedFields.forEach(field => {
+          if (extended[field] === undefined) extended[field] = '';
+        });
+        return extended;
+      });
+
+  let nextId = getNextRowId(baseRows);
+  const importedRows = records.map(record => ({
+    ...createEmptyRow(nextId, customColumns),
+    ...Object.fromEntries(Object.entries(record).map(([field, value]) => [idMap.get(field) ?? field, value])),
+    id: nextId++,
+  } as SpreadsheetRow));
+
+  return { rows: [...baseRows, ...importedRows], customColumns };
+};
@@ -0,0 +1,207 @@
+import type { SpreadsheetRow, CustomColumn } from '../types';
+import { coerceStatus, normalizeDate, parseDisplayDate } from './rows';
+import { parseNumber } from './columnTypes';
+import { getFilterFields, matchesCondition } from './filters';
+import type { FilterCondition, FilterFieldOption, FilterGroup, FilterNode, FilterOperator } from './filters';
+
+/*
+ * Search box query language:
+ *   words and "quoted phrases"        match any searched field
+ *   status:blocked                    field terms, by field key or label (assigned:"Rachel Lee")
+ *   due<01-12-2024  estValue>5000000  comparisons on date and number fields: < > <= >= =
+ *   -status:complete  -draft          a leading - excludes rows that match
+ *   a OR b                            terms are ANDed together; OR separates alternatives
+ */
+
+// Field of conditions on bare words and phrases, which match any searched field
+export const ANY_FIELD = '*';
+
+type ComparisonOperator = ':' | '=' | '<' | '>' | '<=' | '>=';
+
+interface QueryTerm {
+  negate: boolean;
+  field?: string;
+  operator?: ComparisonOperator;
+  value: string;
+}
+
+export interface ParsedSearch {
+  // Null for an empty search or one with an error
+  query: FilterGroup | null;
+  error?: string;
+}
+
+const normalizeName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// A field can be named by its key, its label, or the first word of its label when that is unambiguous
+const resolveField = (name: string, fields: FilterFieldOption[]): FilterFieldOption | undefined => {
+  const token = normalizeName(name);
+  const exact = fields.find(field => normalizeName(field.key) === token || normalizeName(field.label) === token);
+  if (exact) return exact;
+  const byFirstWord = fields.filter(field => normalizeName(field.label.split(/\s+/)[0]) === token);
+  return byFirstWord.length === 1 ? byFirstWord[0] : undefined;
+};
+
+const tokenize = (input: string): (QueryTerm | 'OR')[] => {
+  const tokens: (QueryTerm | 'OR')[] = [];
+  const isSpace = (char: string | undefined) => char !== undefined && /\s/.test(char);
+  let i = 0;
+
+  const readQuoted = () => {
+    const end = input.indexOf('"', i + 1);
+    if (end === -1) throw new Error('Missing closing quote');
+    const value = input.slice(i + 1, end);
+    i = end + 1;
+    return value;
+  };
+
+  const readUntil = (stop: RegExp) => {
+    const start = i;
+    while (i < input.length && !stop.test(input[i])) i++;
+    return input.slice(start, i);
+  };
+
+  while (i < input.length) {
+    if (isSpace(input[i])) {
+      i++;
+      continue;
+    }
+
+    const negate = input[i] === '-';
+    if (negate) {
+      i++;
+      if (i >= input.length || isSpace(input[i])) throw new Error('Nothing to exclude after "-"');
+    }
+
+    if (input[i] === '"') {
+      tokens.push({ negate, value: readQuoted() });
+      continue;
+    }
+
+    const word = readUntil(/[\s":<>=]/);
+    const operator = input.slice(i).match(/^(<=|>=|[:<>=])/)?.[1] as ComparisonOperator | undefined;
+    if (!operator) {
+      if (input[i] === '"') throw new Error(`Put a space before the quote after "${word}"`);
+      tokens.push(word === 'OR' && !negate ? 'OR' : { negate, value: word });
+      continue;
+    }
+
+    if (!word) throw new Error(`Missing field name before "${operator}"`);
+    i += operator.length;
+    const value = input[i] === '"' ? readQuoted() : readUntil(/\s/);
+    if (!value.trim()) throw new Error(`"${word}${operator}" needs a value`);
+    tokens.push({ negate, field: word, operator, value });
+  }
+
+  return tokens;
+};
+
+const COMPARISONS: Record<'date' | 'number', Record<ComparisonOperator, FilterOperator>> = {
+  date: { ':': 'is', '=': 'is', '<': 'before', '>': 'after', '<=': 'between', '>=': 'between' },
+  number: { ':': 'is', '=': 'is', '<': 'lessThan', '>': 'greaterThan', '<=': 'between', '>=': 'between' },
+};
+
+// Turn a field term into a filter condition of the operator that suits the field
+const toCondition = (term: QueryTerm, fields: FilterFieldOption[]): FilterCondition => {
+  const condition = (field: string, operator: FilterOperator, values: string[]): FilterCondition =>
+    ({ type: 'condition', field, operator, values, ...(term.negate ? { negate: true } : {}) });
+
+  if (!term.field || !term.operator) return condition(ANY_FIELD, 'contains', [term.value]);
+
+  const field = resolveField(term.field, fields);
+  if (!field) throw new Error(`Unknown field "${term.field}"; put the text in quotes to search for it`);
+  const { operator, value } = term;
+  const isComparison = operator !== ':' && operator !== '=';
+  // <= and >= are open-ended ranges
+  const rangeValues = operator === '<=' ? ['', value] : operator === '>=' ? [value, ''] : [value];
+
+  switch (field.kind) {
+    case 'date': {
+      const date = normalizeDate(value);
+      if (!parseDisplayDate(date)) throw new Error(`${field.label} needs a DD-MM-YYYY date, not "${value}"`);
+      return condition(field.key, COMPARISONS.date[operator], rangeValues.map(part => part && date));
+    }
+    case 'number':
+      if (parseNumber(value) === null) throw new Error(`${field.label} needs a number, not "${value}"`);
+      return condition(field.key, COMPARISONS.number[operator], rangeValues);
+    case 'checkbox': {
+      if (isComparison) break;
+      const token = value.toLowerCase();
+      if (['true', 'yes', 'checked', '1'].includes(token)) return condition(field.key, 'is', ['Checked']);
+      if (['false', 'no', 'unchecked', '0'].includes(token)) return condition(field.key, 'is', ['Unchecked']);
+      throw new Error(`${field.label} is yes or no, not "${value}"`);
+    }
+    case 'choice':
+    case 'multiChoice': {
+      if (isComparison) break;
+      const option = field.options?.find(candidate => candidate.toLowerCase() === value.toLowerCase())
+        ?? (field.key === 'status' ? coerceStatus(value) : undefined);
+      if (!option) throw new Error(`"${value}" is not an option of ${field.label}`);
+      return condition(field.key, 'is', [option]);
+    }
+    default:
+      if (isComparison) break;
+      return condition(field.key, operator === '=' ? 'is' : 'contains', [value]);
+  }
+  throw new Error(`"${operator}" only works on date and number fields`);
+};
+
+// Parse the search box into the filter model: an OR group of AND groups of conditions
+export const parseSearchQuery = (input: string, fields: FilterFieldOption[]): ParsedSearch => {
+  if (!input.trim()) return { query: null };
+
+  try {
+    const alternatives: QueryTerm[][] = [[]];
+    tokenize(input).forEach(token => {
+      if (token === 'OR') alternatives.push([]);
+      else alternatives[alternatives.length - 1].push(token);
+    });
+    if (alternatives.some(terms => terms.length === 0)) {
+      throw new Error('OR needs a search term on each side');
+    }
+
+    const groups = alternatives.map((terms): FilterGroup => ({
+      type: 'group',
+      join: 'and',
+      children: terms.map(term => toCondition(term, fields)),
+    }));
+    return { query: groups.length === 1 ? groups[0] : { type: 'group', join: 'or', children: groups } };
+  } catch (error) {
+    return { query: null, error: (error as Error).message };
+  }
+};
+
+// Text worth highlighting inside matched cells: the words, phrases and text values looked for
+export const getHighlightTerms = (node: FilterNode): string[] => {
+  if (node.type === 'group') return node.children.flatMap(getHighlightTerms);
+  return !node.negate && (node.operator === 'contains' || node.operator === 'is') ? node.values : [];
+};
+
+// Test a row against a parsed query. Returns the searched fields that helped it match, which
+// may be none for rows matched on hidden fields or exclusions alone, or null when it doesn't match.
+// getText gives the lowercased text a cell shows, which is what bare words are compared with
+export const createSearchMatcher = (query: FilterGroup, customColumns: CustomColumn[], searchFields: string[]) => {
+  const kinds = new Map(getFilterFields(customColumns).map(field => [field.key, field.kind]));
+
+  const evaluate = (node: FilterNode, row: SpreadsheetRow, getText: (field: string) => string): Set<string> | null => {
+    if (node.type === 'condition') {
+      if (node.field === ANY_FIELD) {
+        const target = node.values[0].toLowerCase();
+        const matched = searchFields.filter(field => getText(field).includes(target));
+        if (node.negate) return matched.length === 0 ? new Set() : null;
+        return matched.length > 0 ? new Set(matched) : null;
+      }
+      if (!matchesCondition(row, node, kinds.get(node.field) ?? 'text')) return null;
+      return new Set(node.negate ? [] : [node.field]);
+    }
+
+    const results = node.children.map(child => evaluate(child, row, getText));
+    if (node.join === 'and' ? results.includes(null) : results.every(result => result === null)) return null;
+    return new Set(results.flatMap(result => (result ? [...result] : [])));
+  };
+
+  return (row: SpreadsheetRow, getText: (field: string) => string): string[] | null => {
+    const fields = evaluate(query, row, getText);
+    return fields ? searchFields.filter(field => fields.has(field)) : null;
+  };
+};
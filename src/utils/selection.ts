@@ -0,0 +1,29 @@
+import type { SpreadsheetRow } from '../types';
+
+// A cell on screen: the row id and the index into the visible columns
+export interface CellPosition {
+  row: number;
+  col: number;
+}
+
+// Selected cells are kept as "rowId-colIndex" strings
+export const toCellId = ({ row, col }: CellPosition) => `${row}-${col}`;
+
+export const parseCellId = (cellId: string): CellPosition => {
+  const [row, col] = cellId.split('-').map(Number);
+  return { row, col };
+};
+
+// Cells in the rectangle between two corners, following the row order on screen
+export const getRangeCellIds = (rows: SpreadsheetRow[], anchor: CellPosition, focus: CellPosition): Set<string> => {
+  const anchorIndex = rows.findIndex(row => row.id === anchor.row);
+  const focusIndex = rows.findIndex(row => row.id === focus.row);
+  const cellIds = new Set<string>();
+  if (anchorIndex < 0 || focusIndex < 0) return cellIds;
+
+  const [firstCol, lastCol] = [Math.min(anchor.col, focus.col), Math.max(anchor.col, focus.col)];
+  rows.slice(Math.min(anchorIndex, focusIndex), Math.max(anchorIndex, focusIndex) + 1).forEach(row => {
+    for (let col = firstCol; col <= lastCol; col++) cellIds.add(toCellId({ row: row.id, col }));
+  });
+  return cellIds;
+};
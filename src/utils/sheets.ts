@@ -0,0 +1,56 @@
+import type { SpreadsheetRow } from '../types';
+import { DEFAULT_VIEWS } from './storage';
+import { DEFAULT_BUILT_IN_COLUMNS } from './columns';
+import { countConditions, removeFilterField } from './filters';
+import type { SavedView, WorkbookSheet } from './storage';
+
+// "Sheet 2", "Sheet 3"... skipping names already taken
+export const getUniqueName = (base: string, takenNames: string[]) => {
+  if (!takenNames.includes(base)) return base;
+  let suffix = 2;
+  while (takenNames.includes(`${base} ${suffix}`)) suffix++;
+  return `${base} ${suffix}`;
+};
+
+// Move one entry of a list by `offset` places
+export const moveItem = <T>(items: T[], index: number, offset: number): T[] => {
+  const next = [...items];
+  const [item] = next.splice(index, 1);
+  next.splice(index + offset, 0, item);
+  return next;
+};
+
+// Forget a deleted column in a view's filter, sort, hidden fields and column order. Views
+// that don't refer to it are returned as they are
+export const removeViewField = (view: SavedView, field: string): SavedView => {
+  const next = {
+    ...view,
+    filter: removeFilterField(view.filter, field),
+    sortKeys: view.sortKeys.filter(key => key.field !== field),
+    hiddenFields: view.hiddenFields.filter(hidden => hidden !== field),
+    columnOrder: view.columnOrder.filter(ordered => ordered !== field),
+  };
+  const isUnchanged = countConditions(next.filter) === countConditions(view.filter)
+    && next.sortKeys.length === view.sortKeys.length
+    && next.hiddenFields.length === view.hiddenFields.length
+    && next.columnOrder.length === view.columnOrder.length;
+  return isUnchanged ? view : next;
+};
+
+export const createSheet = (name: string, rows: SpreadsheetRow[] = []): WorkbookSheet => ({
+  id: `sheet-${Date.now()}`,
+  name,
+  rows,
+  customColumns: [],
+  builtInColumns: DEFAULT_BUILT_IN_COLUMNS,
+  columnWidths: [],
+  views: DEFAULT_VIEWS,
+  activeViewId: DEFAULT_VIEWS[0].id,
+});
+
+// Copy a sheet with its rows, columns and views under a new name
+export const duplicateSheet = (sheet: WorkbookSheet, takenNames: string[]): WorkbookSheet => ({
+  ...sheet,
+  id: `sheet-${Date.now()}`,
+  name: getUniqueName(`${sheet.name} copy`, takenNames),
+});
@@ -0,0 +1,346 @@
+import type { SpreadsheetRow, CustomColumn, ColumnType } from '../types';
+import type { SortKey, CellViewMode } from '../App';
+import { STATUS_VALUES, PRIORITY_VALUES, getCustomFieldKey } from './rows';
+import { EMPTY_FILTER, filterFromLegacy } from './filters';
+import { DEFAULT_BUILT_IN_COLUMNS, assignColumnIds, isBuiltInColumnId } from './columns';
+import type { BuiltInColumnState } from './columns';
+import type { FilterGroup } from './filters';
+
+const DB_NAME = 'spreadsheet-pro';
+const DB_VERSION = 1;
+const STORE_NAME = 'workbooks';
+const WORKBOOK_KEY = 'current';
+
+// Bump this whenever the shape of PersistedWorkbook or SpreadsheetRow changes
+// and register a migration from the previous version below.
+export const WORKBOOK_SCHEMA_VERSION = 8;
+
+export interface PersistedViewState {
+  hiddenFields: string[];
+  sortKeys: SortKey[];
+  filter: FilterGroup;
+  // Field keys in display order; fields missing from the list keep their workbook position
+  columnOrder: string[];
+  cellViewMode: CellViewMode;
+  // Rows and columns pinned at the top and left, counted on screen
+  frozenRows: number;
+  frozenColumns: number;
+}
+
+// A named set of view settings, shown as a footer tab
+export interface SavedView extends PersistedViewState {
+  id: string;
+  name: string;
+}
+
+// One independent table in the workbook, with its own columns and views
+export interface WorkbookSheet {
+  id: string;
+  name: string;
+  rows: SpreadsheetRow[];
+  customColumns: CustomColumn[];
+  // Built-in columns still on the sheet and their labels
+  builtInColumns: BuiltInColumnState[];
+  columnWidths: number[];
+  views: SavedView[];
+  activeViewId: string;
+}
+
+export interface PersistedWorkbook {
+  schemaVersion: number;
+  sheets: WorkbookSheet[];
+  activeSheetId: string;
+  savedAt: string;
+}
+
+export const DEFAULT_VIEW_STATE: PersistedViewState = {
+  hiddenFields: [],
+  sortKeys: [],
+  filter: EMPTY_FILTER,
+  columnOrder: [],
+  cellViewMode: 'normal',
+  frozenRows: 0,
+  frozenColumns: 0
+};
+
+const statusFilter = (statuses: string[]): FilterGroup => ({
+  ...EMPTY_FILTER,
+  children: [{ type: 'condition', field: 'status', operator: 'anyOf', values: statuses }],
+});
+
+export const DEFAULT_VIEWS: SavedView[] = [
+  { id: 'all', name: 'All Orders', ...DEFAULT_VIEW_STATE },
+  { id: 'pending', name: 'Pending', ...DEFAULT_VIEW_STATE, filter: statusFilter(['need to start', 'in-progress']) },
+  { id: 'blocked', name: 'Blocked', ...DEFAULT_VIEW_STATE, filter: statusFilter(['blocked']) },
+  { id: 'complete', name: 'Complete', ...DEFAULT_VIEW_STATE, filter: statusFilter(['complete']) },
+];
+
+type RawWorkbook = Record<string, unknown>;
+
+// Each migration upgrades a stored workbook from version N to N + 1
+const migrations: Record<number, (workbook: RawWorkbook) => RawWorkbook> = {
+  // v2: custom columns became typed definitions instead of bare names
+  1: (workbook) => ({
+    ...workbook,
+    customColumns: Array.isArray(workbook.customColumns)
+      ? (workbook.customColumns as unknown[])
+          .filter((col): col is string => typeof col === 'string')
+          .map(name => ({ name, type: 'text' }))
+      : [],
+  }),
+  // v3: the single sortField/sortOrder pair became a list of sort keys
+  2: (workbook) => {
+    const { sortField, sortOrder, ...view } = (workbook.view ?? {}) as RawWorkbook;
+    const hasSort = typeof sortField === 'string' && (sortOrder === 'asc' || sortOrder === 'desc');
+    return {
+      ...workbook,
+      view: { ...view, sortKeys: hasSort ? [{ field: sortField, order: sortOrder }] : [] },
+    };
+  },
+  // v4: the single filterField/filterValue pair became a tree of filter conditions
+  3: (workbook) => {
+    const { filterField, filterValue, ...view } = (workbook.view ?? {}) as RawWorkbook;
+    // Columns were still keyed by their name
+    const customColumns = Array.isArray(workbook.customColumns)
+      ? workbook.customColumns.filter(isColumnDefinition).map(col => ({ ...col, id: getCustomFieldKey(col.name) }))
+      : [];
+    const hasFilter = typeof filterField === 'string' && typeof filterValue === 'string';
+    return {
+      ...workbook,
+      view: { ...view, filter: hasFilter ? filterFromLegacy(filterField, filterValue, customColumns) : EMPTY_FILTER },
+    };
+  },
+  // v5: the single view became a list of saved views shown as footer tabs
+  4: ({ view, ...workbook }) => ({
+    ...workbook,
+    views: [{ ...(view as RawWorkbook | undefined), id: 'all', name: 'All Orders' }],
+    activeViewId: 'all',
+  }),
+  // v6: the rows, columns and views moved into a list of sheets
+  5: ({ rows, customColumns, columnWidths, views, activeViewId, ...workbook }) => ({
+    ...workbook,
+    sheets: [{ id: 'sheet-1', name: 'Sheet 1', rows, customColumns, columnWidths, views, activeViewId }],
+    activeSheetId: 'sheet-1',
+  }),
+  // v7: built-in columns can be renamed and deleted, so each sheet lists the ones it keeps
+  6: (workbook) => ({
+    ...workbook,
+    sheets: Array.isArray(workbook.sheets)
+      ? (workbook.sheets as unknown[]).map(sheet => ({ ...(sheet as RawWorkbook), builtInColumns: DEFAULT_BUILT_IN_COLUMNS }))
+      : workbook.sheets,
+  }),
+  // v8: custom columns got ids of their own instead of a field key derived from their name
+  7: (workbook) => ({
+    ...workbook,
+    sheets: Array.isArray(workbook.sheets)
+      ? (workbook.sheets as RawWorkbook[]).map(sheet => ({
+          ...sheet,
+          ...assignColumnIds(
+            Array.isArray(sheet.customColumns) ? sheet.customColumns.filter(isColumnDefinition) : [],
+            Array.isArray(sheet.rows) ? sheet.rows : []
+          ),
+        }))
+      : workbook.sheets,
+  }),
+};
+
+const COLUMN_TYPE_VALUES: ColumnType[] = [
+  'text', 'number', 'currency', 'date', 'select', 'multiSelect', 'checkbox', 'url', 'person', 'longText'
+];
+
+// A column as stored before version 8, without an id
+const isColumnDefinition = (value: unknown): value is Omit<CustomColumn, 'id'> => {
+  if (!value || typeof value !== 'object') return false;
+  const col = value as Record<string, unknown>;
+  return typeof col.name === 'string' && COLUMN_TYPE_VALUES.includes(col.type as ColumnType);
+};
+
+const isCustomColumn = (value: unknown): value is CustomColumn =>
+  isColumnDefinition(value) && typeof (value as Record<string, unknown>).id === 'string';
+
+const isBuiltInColumnState = (value: unknown): value is BuiltInColumnState => {
+  if (!value || typeof value !== 'object') return false;
+  const col = value as Record<string, unknown>;
+  return typeof col.id === 'string' && isBuiltInColumnId(col.id) && typeof col.label === 'string';
+};
+
+const STRING_FIELDS = ['jobRequest', 'submitted', 'submitter', 'url', 'assigned', 'dueDate', 'estValue'];
+
+// Fill in fields missing from rows saved under an older row schema
+const normalizeRow = (raw: Record<string, unknown>, customColumns: CustomColumn[]): SpreadsheetRow => {
+  const row = { ...raw } as SpreadsheetRow;
+
+  STRING_FIELDS.forEach(field => {
+    if (typeof row[field] !== 'string') {
+      row[field] = row[field] === undefined || row[field] === null ? '' : String(row[field]);
+    }
+  });
+
+  if (!STATUS_VALUES.includes(row.status)) row.status = 'need to start';
+  if (!PRIORITY_VALUES.includes(row.priority)) row.priority = 'Medium';
+
+  customColumns.forEach(col => {
+    if (row[col.id] === undefined) row[col.id] = '';
+  });
+
+  return row;
+};
+
+// Validate one stored sheet, dropping malformed rows, columns and views
+const normalizeSheet = (sheet: RawWorkbook): WorkbookSheet | null => {
+  if (typeof sheet.id !== 'string' || typeof sheet.name !== 'string' || !Array.isArray(sheet.rows)) return null;
+
+  const customColumns = Array.isArray(sheet.customColumns)
+    ? (sheet.customColumns as unknown[])
+        .filter(isCustomColumn)
+        .filter((col, index, columns) => !isBuiltInColumnId(col.id) && columns.findIndex(other => other.id === col.id) === index)
+    : [];
+
+  const rows = (sheet.rows as unknown[])
+    .filter((row): row is Record<string, unknown> => !!row && typeof row === 'object' && typeof (row as RawWorkbook).id === 'number')
+    .map(row => normalizeRow(row, customColumns));
+
+  const storedViews = Array.isArray(sheet.views)
+    ? (sheet.views as unknown[])
+        .filter((view): view is RawWorkbook => !!view && typeof view === 'object')
+        .filter(view => typeof view.id === 'string' && typeof view.name === 'string')
+        .map(view => ({ ...DEFAULT_VIEW_STATE, ...view }) as SavedView)
+    : [];
+  const views = storedViews.length > 0 ? storedViews : DEFAULT_VIEWS;
+
+  return {
+    id: sheet.id,
+    name: sheet.name,
+    rows,
+    customColumns,
+    builtInColumns: Array.isArray(sheet.builtInColumns)
+      ? (sheet.builtInColumns as unknown[])
+          .filter(isBuiltInColumnState)
+          .filter((col, index, columns) => columns.findIndex(other => other.id === col.id) === index)
+      : DEFAULT_BUILT_IN_COLUMNS,
+    columnWidths: Array.isArray(sheet.columnWidths)
+      ? (sheet.columnWidths as unknown[]).filter((w): w is number => typeof w === 'number')
+      : [],
+    views,
+    activeViewId: views.some(view => view.id === sheet.activeViewId) ? sheet.activeViewId as string : views[0].id
+  };
+};
+
+export const migrateWorkbook = (raw: unknown): PersistedWorkbook | null => {
+  if (!raw || typeof raw !== 'object') return null;
+
+  let workbook = raw as RawWorkbook;
+  let version = typeof workbook.schemaVersion === 'number' ? workbook.schemaVersion : 0;
+
+  if (version > WORKBOOK_SCHEMA_VERSION) {
+    console.warn(`Stored workbook uses schema v${version}, newer than supported v${WORKBOOK_SCHEMA_VERSION}`);
+    return null;
+  }
+
+  while (version < WORKBOOK_SCHEMA_VERSION) {
+    const migrate = migrations[version];
+    if (!migrate) {
+      console.warn(`No migration from workbook schema v${version}, discarding stored data`);
+      return null;
+    }
+    workbook = migrate(workbook);
+    version++;
+  }
+
+  const sheets = Array.isArray(workbook.sheets)
+    ? (workbook.sheets as unknown[])
+        .filter((sheet): sheet is RawWorkbook => !!sheet && typeof sheet === 'object')
+        .map(normalizeSheet)
+        .filter((sheet): sheet is WorkbookSheet => sheet !== null)
+    : [];
+  if (sheets.length === 0) return null;
+
+  return {
+    schemaVersion: WORKBOOK_SCHEMA_VERSION,
+    sheets,
+    activeSheetId: sheets.some(sheet => sheet.id === workbook.activeSheetId) ? workbook.activeSheetId as string : sheets[0].id,
+    savedAt: typeof workbook.savedAt === 'string' ? workbook.savedAt : new Date().toISOString()
+  };
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          db.createObjectStore(STORE_NAME);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later retry if opening failed
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+export const loadWorkbook = async (): Promise<PersistedWorkbook | null> => {
+  const db = await openDatabase();
+  const raw = await new Promise<unknown>((resolve, reject) => {
+    const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(WORKBOOK_KEY);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  return migrateWorkbook(raw);
+};
+
+export const saveWorkbook = async (workbook: Omit<PersistedWorkbook, 'schemaVersion' | 'savedAt'>) => {
+  const db = await openDatabase();
+  const record: PersistedWorkbook = {
+    ...workbook,
+    schemaVersion: WORKBOOK_SCHEMA_VERSION,
+    savedAt: new Date().toISOString()
+  };
+
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    transaction.objectStore(STORE_NAME).put(record, WORKBOOK_KEY);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+// Coalesce rapid edits into a single write after `delay` ms of inactivity
+export const createDebouncedSaver = (delay = 500) => {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let pending: Parameters<typeof saveWorkbook>[0] | null = null;
+
+  const flush = () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    if (!pending) return;
+
+    const workbook = pending;
+    pending = null;
+    saveWorkbook(workbook).catch(error => {
+      console.error('Failed to save workbook:', error);
+    });
+  };
+
+  const schedule = (workbook: Parameters<typeof saveWorkbook>[0]) => {
+    pending = workbook;
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(flush, delay);
+  };
+
+  return { schedule, flush };
+};
@@ -0,0 +1,62 @@
+import type { SpreadsheetRow } from '../types';
+import type { CellViewMode } from '../App';
+
+const BASE_ROW_HEIGHTS: Record<CellViewMode, number> = { compact: 32, normal: 40, expanded: 64 };
+const LINE_HEIGHTS: Record<CellViewMode, number> = { compact: 16, normal: 18, expanded: 20 };
+
+// Row height in pixels: the cell view's base height, plus a line for every 40 characters
+// the row's longest value runs past 50
+export const getRowHeight = (row: SpreadsheetRow, fields: string[], cellViewMode: CellViewMode): number => {
+  const longest = fields.reduce((max, field) => Math.max(max, String(row[field] || '').length), 0);
+  const extraLines = longest > 50 ? Math.ceil((longest - 50) / 40) : 0;
+  return BASE_ROW_HEIGHTS[cellViewMode] + extraLines * LINE_HEIGHTS[cellViewMode];
+};
+
+// Running totals of item sizes: offsets[i] is where item i starts and the last entry is the total
+export const getOffsets = (sizes: number[]): number[] => {
+  const offsets = new Array<number>(sizes.length + 1);
+  offsets[0] = 0;
+  sizes.forEach((size, index) => {
+    offsets[index + 1] = offsets[index] + size;
+  });
+  return offsets;
+};
+
+// Index of the item covering `position`, clamped to the list
+export const findIndexAt = (offsets: number[], position: number): number => {
+  let low = 0;
+  let high = offsets.length - 2;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (offsets[middle] <= position) low = middle;
+    else high = middle - 1;
+  }
+  return Math.max(0, low);
+};
+
+// Items from `start` up to but not including `end` overlap the viewport, widened by `overscan`
+// on both sides so fast scrolling doesn't show blank space
+export const getVisibleRange = (
+  offsets: number[],
+  scrollStart: number,
+  viewportSize: number,
+  overscan: number
+): { start: number; end: number } => {
+  const count = offsets.length - 1;
+  if (count <= 0) return { start: 0, end: 0 };
+  const first = findIndexAt(offsets, scrollStart);
+  const last = findIndexAt(offsets, scrollStart + Math.max(viewportSize, 0));
+  return { start: Math.max(0, first - overscan), end: Math.min(count, last + 1 + overscan) };
+};
+
+// Scroll position that brings an item fully into view, or null when it already is
+export const getScrollToReveal = (
+  itemStart: number,
+  itemEnd: number,
+  scrollStart: number,
+  viewportSize: number
+): number | null => {
+  if (itemStart < scrollStart) return itemStart;
+  if (itemEnd > scrollStart + viewportSize) return Math.min(itemStart, itemEnd - viewportSize);
+  return null;
+};
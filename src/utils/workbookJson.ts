@@ -0,0 +1,349 @@
+import type { SpreadsheetRow, CustomColumn } from '../types';
+import { STATUS_VALUES, PRIORITY_VALUES, parseDisplayDate } from './rows';
+import { BUILT_IN_COLUMNS, DEFAULT_BUILT_IN_COLUMNS, assignColumnIds, getWorkbookFields, isBuiltInColumnId } from './columns';
+import type { BuiltInColumnState } from './columns';
+import { DEFAULT_VIEW_STATE } from './storage';
+import { COLUMN_TYPES, coerceCustomValue, hasOptions } from './columnTypes';
+import type { PersistedViewState } from './storage';
+import { EMPTY_FILTER, filterFromLegacy, parseFilter } from './filters';
+
+/*
+ * Workbook JSON format (version 6)
+ *
+ * {
+ *   "format": "spreadsheet-pro-workbook",
+ *   "version": 6,
+ *   "exportedAt": "2025-01-31T10:00:00.000Z",
+ *   "customColumns": [
+ *     { "name": "Notes", "field": "col-m5x2k1", "type": "longText" },
+ *     { "name": "Stage", "field": "stage", "type": "select", "options": ["Draft", "Final"] },
+ *     { "name": "Budget", "field": "col-m5x2k9", "type": "currency", "currency": "USD" }
+ *   ],
+ *   "builtInColumns": [
+ *     { "id": "jobRequest", "label": "Request" }, { "id": "submitted", "label": "Submitted" },
+ *     { "id": "status", "label": "Status" }, { "id": "priority", "label": "Priority" }, ...
+ *   ],
+ *   "columnWidths": [320, 120, 140],
+ *   "view": {
+ *     "hiddenFields": ["url"],
+ *     "sortKeys": [{ "field": "priority", "order": "desc" }, { "field": "dueDate", "order": "asc" }],
+ *     "filter": {
+ *       "type": "group", "join": "and",
+ *       "children": [
+ *         { "type": "condition", "field": "dueDate", "operator": "before", "values": ["01-02-2025"] },
+ *         { "type": "group", "join": "or", "children": [
+ *           { "type": "condition", "field": "status", "operator": "anyOf", "values": ["blocked", "need to start"] },
+ *           { "type": "condition", "field": "estValue", "operator": "between", "values": ["1000", ""] }
+ *         ] }
+ *       ]
+ *     },
+ *     "columnOrder": ["jobRequest", "priority", "status"],
+ *     "cellViewMode": "normal",
+ *     "frozenRows": 0,
+ *     "frozenColumns": 1
+ *   },
+ *   "rows": [{
+ *     "id": 1, "jobRequest": "...", "submitted": "15-11-2024",
+ *     "status": "in-progress", "submitter": "...", "url": "...",
+ *     "assigned": "...", "priority": "Medium", "dueDate": "20-11-2024",
+ *     "estValue": "6,200,000", "col-m5x2k1": "..."
+ *   }]
+ * }
+ *
+ * - status must be one of the Status values and priority one of the Priority values
+ * - submitted and dueDate are empty or a valid DD-MM-YYYY date
+ * - every other value is a string; custom column values are keyed by their "field"
+ *   and must be valid for the column type (numbers, DD-MM-YYYY dates, listed
+ *   options, "true" or "" for checkboxes)
+ * - ids are unique positive integers
+ * - a custom column's "field" is its id, which renaming the column doesn't change. A field
+ *   taken by a built-in or an earlier column, as names could produce before columns had
+ *   ids, is replaced with a new id and the column keeps the values stored under it
+ * - "builtInColumns" lists the built-in columns shown on the sheet with their labels; rows
+ *   still carry every built-in field, including those of deleted columns
+ * - "view" holds the settings of the view that was active when exporting; columnOrder
+ *   lists field keys in display order and unlisted fields keep their workbook position;
+ *   frozenRows and frozenColumns count the rows and columns on screen pinned while scrolling
+ *
+ * Version 1 files, whose custom columns have no "type", are read as text columns, and the
+ * single "sortField"/"sortOrder" pair of versions 1 and 2 is read as one sort key. The
+ * single "filterField"/"filterValue" pair of versions 1 to 3 is read as one condition.
+ * Files before version 6 have no "builtInColumns" and show every built-in column.
+ */
+
+export const WORKBOOK_JSON_FORMAT = 'spreadsheet-pro-workbook';
+export const WORKBOOK_JSON_VERSION = 6;
+
+export interface WorkbookJsonColumn extends Omit<CustomColumn, 'id'> {
+  field: string;
+}
+
+export interface WorkbookJson {
+  format: typeof WORKBOOK_JSON_FORMAT;
+  version: number;
+  exportedAt: string;
+  customColumns: WorkbookJsonColumn[];
+  builtInColumns: BuiltInColumnState[];
+  columnWidths: number[];
+  view: PersistedViewState;
+  rows: SpreadsheetRow[];
+}
+
+export interface WorkbookContents {
+  rows: SpreadsheetRow[];
+  customColumns: CustomColumn[];
+  builtInColumns: BuiltInColumnState[];
+  columnWidths: number[];
+  view: PersistedViewState;
+}
+
+export interface RowValidationError {
+  row: number;
+  id?: number;
+  field: string;
+  message: string;
+}
+
+export interface WorkbookJsonParseResult {
+  workbook: WorkbookContents | null;
+  // Rows that failed validation are reported here and left out of workbook.rows
+  errors: RowValidationError[];
+  invalidRowCount: number;
+  fatalError?: string;
+}
+
+export const serializeWorkbook = ({ rows, customColumns, builtInColumns, columnWidths, view }: WorkbookContents): string => {
+  const document: WorkbookJson = {
+    format: WORKBOOK_JSON_FORMAT,
+    version: WORKBOOK_JSON_VERSION,
+    exportedAt: new Date().toISOString(),
+    customColumns: customColumns.map(({ id, ...col }) => ({ ...col, field: id })),
+    builtInColumns,
+    columnWidths,
+    view,
+    rows,
+  };
+  return JSON.stringify(document, null, 2);
+};
+
+const DATE_FIELDS = ['submitted', 'dueDate'];
+const CELL_VIEW_MODES = ['compact', 'normal', 'expanded'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isCount = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+const validateRow = (
+  raw: unknown,
+  rowNumber: number,
+  customColumns: CustomColumn[],
+  seenIds: Set<number>
+): { row: SpreadsheetRow | null; errors: RowValidationError[] } => {
+  const customFields = customColumns.map(col => col.id);
+  const errors: RowValidationError[] = [];
+
+  if (!isRecord(raw)) {
+    return { row: null, errors: [{ row: rowNumber, field: '(row)', message: 'Row must be an object' }] };
+  }
+
+  const id = raw.id;
+  const error = (field: string, message: string) =>
+    errors.push({ row: rowNumber, id: typeof id === 'number' ? id : undefined, field, message });
+
+  if (typeof id !== 'number' || !Number.isInteger(id) || id <= 0) {
+    error('id', 'id must be a positive integer');
+  } else if (seenIds.has(id)) {
+    error('id', `Duplicate id ${id}`);
+  }
+
+  BUILT_IN_COLUMNS.forEach(({ id: key }) => {
+    const value = raw[key];
+    if (value === undefined) {
+      error(key, 'Missing field');
+      return;
+    }
+    if (typeof value !== 'string') {
+      error(key, `Expected a string, got ${typeof value}`);
+      return;
+    }
+    if (key === 'status' && !STATUS_VALUES.includes(value as SpreadsheetRow['status'])) {
+      error(key, `"${value}" is not one of ${STATUS_VALUES.join(', ')}`);
+    }
+    if (key === 'priority' && !PRIORITY_VALUES.includes(value as SpreadsheetRow['priority'])) {
+      error(key, `"${value}" is not one of ${PRIORITY_VALUES.join(', ')}`);
+    }
+    if (DATE_FIELDS.includes(key) && value !== '' && !parseDisplayDate(value)) {
+      error(key, `"${value}" is not a DD-MM-YYYY date`);
+    }
+  });
+
+  const coercedValues: Record<string, string> = {};
+  customColumns.forEach((column, index) => {
+    const field = customFields[index];
+    const value = raw[field];
+    if (value === undefined) return;
+    if (typeof value !== 'string') {
+      error(field, `Expected a string, got ${typeof value}`);
+      return;
+    }
+
+    const { value: coerced, valid } = coerceCustomValue(column, value);
+    if (!valid) {
+      error(field, `"${value}" is not a valid ${column.type} value`);
+    } else if (column.type !== 'text' && column.type !== 'longText') {
+      coercedValues[field] = coerced;
+    }
+  });
+
+  const knownFields = new Set(['id', ...getWorkbookFields(customColumns)]);
+  Object.keys(raw).forEach(key => {
+    if (!knownFields.has(key)) error(key, 'Unknown field');
+  });
+
+  if (errors.length > 0) return { row: null, errors };
+
+  seenIds.add(id as number);
+  const row = { ...raw, ...coercedValues } as SpreadsheetRow;
+  customFields.forEach(field => {
+    if (row[field] === undefined) row[field] = '';
+  });
+  return { row, errors };
+};
+
+// Version 1 columns were plain names (or untyped objects) and become text columns. Ids are
+// assigned once every column is read
+const parseColumn = (raw: unknown): (Omit<CustomColumn, 'id'> & { field?: string }) | null => {
+  if (typeof raw === 'string') return { name: raw, type: 'text' };
+  if (!isRecord(raw) || typeof raw.name !== 'string') return null;
+
+  const type = COLUMN_TYPES.find(option => option.type === raw.type)?.type ?? 'text';
+  const column: Omit<CustomColumn, 'id'> & { field?: string } = { name: raw.name, type };
+  if (typeof raw.field === 'string') column.field = raw.field;
+  if (hasOptions(type)) {
+    column.options = Array.isArray(raw.options)
+      ? raw.options.filter((option): option is string => typeof option === 'string')
+      : [];
+  }
+  if (type === 'currency' && typeof raw.currency === 'string') {
+    column.currency = raw.currency;
+  }
+  return column;
+};
+
+// Built-in columns are listed once each; older files without the list show all of them
+const parseBuiltInColumns = (raw: unknown): BuiltInColumnState[] => {
+  if (!Array.isArray(raw)) return DEFAULT_BUILT_IN_COLUMNS;
+  return raw
+    .filter(isRecord)
+    .filter(col => typeof col.id === 'string' && isBuiltInColumnId(col.id) && typeof col.label === 'string')
+    .map(col => ({ id: col.id, label: col.label }) as BuiltInColumnState)
+    .filter((col, index, columns) => columns.findIndex(other => other.id === col.id) === index);
+};
+
+const parseView = (raw: unknown, customColumns: CustomColumn[], builtInColumns: BuiltInColumnState[]): PersistedViewState => {
+  if (!isRecord(raw)) return DEFAULT_VIEW_STATE;
+
+  // Every column on the sheet can be sorted and filtered on
+  const fields = getWorkbookFields(customColumns, builtInColumns);
+
+  const view = { ...DEFAULT_VIEW_STATE };
+  if (Array.isArray(raw.hiddenFields)) {
+    view.hiddenFields = raw.hiddenFields.filter((field): field is string => typeof field === 'string');
+  }
+  const rawSortKeys = Array.isArray(raw.sortKeys)
+    ? raw.sortKeys
+    : [{ field: raw.sortField, order: raw.sortOrder }];
+  view.sortKeys = rawSortKeys
+    .filter(isRecord)
+    .filter(key => typeof key.field === 'string' && fields.includes(key.field)
+      && (key.order === 'asc' || key.order === 'desc'))
+    .map(key => ({ field: key.field as string, order: key.order as 'asc' | 'desc' }))
+    // A field can only appear once in the sort
+    .filter((key, index, keys) => keys.findIndex(other => other.field === key.field) === index);
+  if (raw.filter !== undefined) {
+    view.filter = parseFilter(raw.filter, fields) ?? EMPTY_FILTER;
+  } else if (typeof raw.filterField === 'string' && fields.includes(raw.filterField)
+    && typeof raw.filterValue === 'string') {
+    view.filter = filterFromLegacy(raw.filterField, raw.filterValue, customColumns);
+  }
+  if (Array.isArray(raw.columnOrder)) {
+    view.columnOrder = raw.columnOrder.filter((field): field is string => typeof field === 'string' && fields.includes(field));
+  }
+  if (typeof raw.cellViewMode === 'string' && CELL_VIEW_MODES.includes(raw.cellViewMode)) {
+    view.cellViewMode = raw.cellViewMode as PersistedViewState['cellViewMode'];
+  }
+  if (isCount(raw.frozenRows)) view.frozenRows = raw.frozenRows;
+  if (isCount(raw.frozenColumns)) view.frozenColumns = raw.frozenColumns;
+  return view;
+};
+
+export const parseWorkbookJson = (text: string): WorkbookJsonParseResult => {
+  const fail = (fatalError: string): WorkbookJsonParseResult => ({
+    workbook: null,
+    errors: [],
+    invalidRowCount: 0,
+    fatalError,
+  });
+
+  let document: unknown;
+  try {
+    document = JSON.parse(text);
+  } catch (error) {
+    return fail(`Invalid JSON: ${(error as Error).message}`);
+  }
+
+  if (!isRecord(document) || document.format !== WORKBOOK_JSON_FORMAT) {
+    return fail(`Not a workbook file (expected "format": "${WORKBOOK_JSON_FORMAT}")`);
+  }
+  if (typeof document.version !== 'number' || document.version < 1 || document.version > WORKBOOK_JSON_VERSION) {
+    return fail(`Unsupported workbook version ${String(document.version)}`);
+  }
+  if (!Array.isArray(document.rows)) {
+    return fail('"rows" must be an array');
+  }
+
+  const parsedColumns: NonNullable<ReturnType<typeof parseColumn>>[] = [];
+  if (Array.isArray(document.customColumns)) {
+    document.customColumns.forEach(col => {
+      const column = parseColumn(col);
+      if (column && !parsedColumns.some(existing => existing.name === column.name)) {
+        parsedColumns.push(column);
+      }
+    });
+  }
+  const { customColumns, rows: rawRows } = assignColumnIds(parsedColumns, document.rows);
+
+  const errors: RowValidationError[] = [];
+  const rows: SpreadsheetRow[] = [];
+  const seenIds = new Set<number>();
+  let invalidRowCount = 0;
+
+  rawRows.forEach((raw, index) => {
+    const result = validateRow(raw, index + 1, customColumns, seenIds);
+    if (result.row) {
+      rows.push(result.row);
+    } else {
+      invalidRowCount++;
+      errors.push(...result.errors);
+    }
+  });
+
+  const builtInColumns = parseBuiltInColumns(document.builtInColumns);
+  const columnWidths = Array.isArray(document.columnWidths)
+    ? document.columnWidths.filter((width): width is number => typeof width === 'number' && width > 0)
+    : [];
+
+  return {
+    workbook: {
+      rows,
+      customColumns,
+      builtInColumns,
+      columnWidths,
+      view: parseView(document.view, customColumns, builtInColumns),
+    },
+    errors,
+    invalidRowCount,
+  };
+};
@@ -0,0 +1,303 @@
+import { createZip, readZip } from './zip';
+
+// A cell value written to a worksheet; Dates become Excel date serials
+export type XlsxCell = string | number | Date | null;
+
+export interface XlsxSheet {
+  name: string;
+  rows: XlsxCell[][];
+  // Bold the first row and freeze it below the column headings
+  headerRow?: boolean;
+}
+
+export interface XlsxReadSheet {
+  name: string;
+  rows: string[][];
+}
+
+// Style indexes into cellXfs in STYLES_XML
+const STYLE_DATE = 1;
+const STYLE_INTEGER = 2;
+const STYLE_HEADER = 3;
+const STYLE_DECIMAL = 4;
+
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+const MS_PER_DAY = 86400000;
+
+// Control characters are invalid in XML 1.0, apart from tab, line feed and carriage return
+const stripControlCharacters = (value: string) => {
+  let result = '';
+  for (let i = 0; i < value.length; i++) {
+    const code = value.charCodeAt(i);
+    if (code >= 0x20 || code === 0x09 || code === 0x0a || code === 0x0d) result += value[i];
+  }
+  return result;
+};
+
+const escapeXml = (value: string) =>
+  stripControlCharacters(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+export const columnLetter = (index: number) => {
+  let letters = '';
+  let n = index + 1;
+  while (n > 0) {
+    const remainder = (n - 1) % 26;
+    letters = String.fromCharCode(65 + remainder) + letters;
+    n = Math.floor((n - 1) / 26);
+  }
+  return letters;
+};
+
+const columnIndexFromRef = (ref: string) => {
+  const letters = ref.match(/^[A-Z]+/i)?.[0].toUpperCase() ?? '';
+  let index = 0;
+  for (const char of letters) {
+    index = index * 26 + (char.charCodeAt(0) - 64);
+  }
+  return index - 1;
+};
+
+export const dateToSerial = (date: Date) =>
+  (Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) - EXCEL_EPOCH) / MS_PER_DAY;
+
+const serialToDateString = (serial: number) => {
+  const date = new Date(EXCEL_EPOCH + Math.round(serial * MS_PER_DAY));
+  const day = String(date.getUTCDate()).padStart(2, '0');
+  const month = String(date.getUTCMonth() + 1).padStart(2, '0');
+  return `${day}-${month}-${date.getUTCFullYear()}`;
+};
+
+// Excel limits sheet names to 31 characters and forbids []:*?/\
+const sanitizeSheetNames = (names: string[]) => {
+  const used = new Set<string>();
+  return names.map((name, index) => {
+    const base = (name.replace(/[[\]:*?/\\]/g, ' ').trim() || `Sheet${index + 1}`).slice(0, 31);
+    let candidate = base;
+    let suffix = 2;
+    while (used.has(candidate.toLowerCase())) {
+      const tag = ` (${suffix++})`;
+      candidate = base.slice(0, 31 - tag.length) + tag;
+    }
+    used.add(candidate.toLowerCase());
+    return candidate;
+  });
+};
+
+const CONTENT_TYPES = (sheetCount: number) => `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+${Array.from({ length: sheetCount }, (_, i) =>
+  `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+).join('\n')}
+</Types>`;
+
+const ROOT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`;
+
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<numFmts count="1"><numFmt numFmtId="164" formatCode="dd\\-mm\\-yyyy"/></numFmts>
+<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="5">
+<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>
+<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="3" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>
+<xf numFmtId="4" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+</cellXfs>
+<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>
+</styleSheet>`;
+
+const renderCell = (value: XlsxCell, ref: string, isHeader: boolean) => {
+  if (value === null || value === '') return '';
+
+  if (value instanceof Date) {
+    return `<c r="${ref}" s="${STYLE_DATE}"><v>${dateToSerial(value)}</v></c>`;
+  }
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    const style = Number.isInteger(value) ? STYLE_INTEGER : STYLE_DECIMAL;
+    return `<c r="${ref}" s="${style}"><v>${value}</v></c>`;
+  }
+
+  const style = isHeader ? ` s="${STYLE_HEADER}"` : '';
+  return `<c r="${ref}" t="inlineStr"${style}><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`;
+};
+
+const renderWorksheet = (sheet: XlsxSheet) => {
+  const columnCount = sheet.rows.reduce((max, row) => Math.max(max, row.length), 0);
+
+  // Size columns to their longest value, within Excel-friendly bounds
+  const widths = Array.from({ length: columnCount }, (_, col) => {
+    const longest = sheet.rows.reduce((max, row) => {
+      const value = row[col];
+      const length = value instanceof Date ? 10 : value === null ? 0 : String(value).length;
+      return Math.max(max, length);
+    }, 0);
+    return Math.min(60, Math.max(10, longest + 2));
+  });
+
+  const cols = columnCount > 0
+    ? `<cols>${widths.map((width, i) => `<col min="${i + 1}" max="${i + 1}" width="${width}" customWidth="1"/>`).join('')}</cols>`
+    : '';
+
+  const pane = sheet.headerRow
+    ? '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>'
+    : '';
+
+  const rows = sheet.rows.map((row, rowIndex) => {
+    const isHeader = !!sheet.headerRow && rowIndex === 0;
+    const cells = row.map((value, colIndex) => renderCell(value, `${columnLetter(colIndex)}${rowIndex + 1}`, isHeader)).join('');
+    return `<row r="${rowIndex + 1}">${cells}</row>`;
+  }).join('');
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">${pane}${cols}<sheetData>${rows}</sheetData></worksheet>`;
+};
+
+// Build an .xlsx file with one worksheet per sheet
+export const writeXlsx = (sheets: XlsxSheet[]): Uint8Array => {
+  const encoder = new TextEncoder();
+  const names = sanitizeSheetNames(sheets.map(sheet => sheet.name));
+
+  const workbookXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<sheets>${names.map((name, i) => `<sheet name="${escapeXml(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('')}</sheets>
+</workbook>`;
+
+  const workbookRels = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+${names.map((_, i) => `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join('\n')}
+<Relationship Id="rId${names.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`;
+
+  return createZip([
+    { name: '[Content_Types].xml', data: encoder.encode(CONTENT_TYPES(sheets.length)) },
+    { name: '_rels/.rels', data: encoder.encode(ROOT_RELS) },
+    { name: 'xl/workbook.xml', data: encoder.encode(workbookXml) },
+    { name: 'xl/_rels/workbook.xml.rels', data: encoder.encode(workbookRels) },
+    { name: 'xl/styles.xml', data: encoder.encode(STYLES_XML) },
+    ...sheets.map((sheet, i) => ({
+      name: `xl/worksheets/sheet${i + 1}.xml`,
+      data: encoder.encode(renderWorksheet(sheet)),
+    })),
+  ]);
+};
+
+const parseXml = (files: Map<string, Uint8Array>, path: string): Document | null => {
+  const data = files.get(path);
+  if (!data) return null;
+  return new DOMParser().parseFromString(new TextDecoder().decode(data), 'application/xml');
+};
+
+const elements = (parent: Document | Element, localName: string) =>
+  Array.from(parent.getElementsByTagNameNS('*', localName));
+
+// Built-in number formats that Excel renders as dates
+const BUILTIN_DATE_FORMATS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 27, 30, 36, 45, 46, 47, 50, 57]);
+
+const isDateFormatCode = (code: string) => {
+  // Ignore quoted literals, escapes and [colour]/[locale] sections before looking for date tokens
+  const cleaned = code.replace(/"[^"]*"/g, '').replace(/\\./g, '').replace(/\[[^\]]*\]/g, '');
+  return /[dmy]/i.test(cleaned) && !/^general$/i.test(cleaned.trim());
+};
+
+const readDateStyles = (styles: Document | null): Set<number> => {
+  const dateStyles = new Set<number>();
+  if (!styles) return dateStyles;
+
+  const customFormats = new Map<number, string>();
+  elements(styles, 'numFmt').forEach(fmt => {
+    customFormats.set(Number(fmt.getAttribute('numFmtId')), fmt.getAttribute('formatCode') ?? '');
+  });
+
+  const cellXfs = elements(styles, 'cellXfs')[0];
+  if (!cellXfs) return dateStyles;
+
+  elements(cellXfs, 'xf').forEach((xf, index) => {
+    const numFmtId = Number(xf.getAttribute('numFmtId') ?? 0);
+    const code = customFormats.get(numFmtId);
+    if (BUILTIN_DATE_FORMATS.has(numFmtId) || (code !== undefined && isDateFormatCode(code))) {
+      dateStyles.add(index);
+    }
+  });
+  return dateStyles;
+};
+
+const textContent = (element: Element) =>
+  elements(element, 't').map(t => t.textContent ?? '').join('');
+
+// Read every worksheet of an .xlsx file into rows of display strings
+export const readXlsx = async (buffer: ArrayBuffer): Promise<XlsxReadSheet[]> => {
+  const files = await readZip(buffer);
+  const workbook = parseXml(files, 'xl/workbook.xml');
+  if (!workbook) {
+    throw new Error('The file is not an Excel workbook');
+  }
+
+  const rels = parseXml(files, 'xl/_rels/workbook.xml.rels');
+  const targets = new Map<string, string>();
+  if (rels) {
+    elements(rels, 'Relationship').forEach(rel => {
+      const target = rel.getAttribute('Target') ?? '';
+      const path = target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+      targets.set(rel.getAttribute('Id') ?? '', path);
+    });
+  }
+
+  const sharedStringsDoc = parseXml(files, 'xl/sharedStrings.xml');
+  const sharedStrings = sharedStringsDoc ? elements(sharedStringsDoc, 'si').map(textContent) : [];
+  const dateStyles = readDateStyles(parseXml(files, 'xl/styles.xml'));
+
+  return elements(workbook, 'sheet').map((sheetElement, index) => {
+    const name = sheetElement.getAttribute('name') ?? `Sheet${index + 1}`;
+    const relId = sheetElement.getAttributeNS('http://schemas.openxmlformats.org/officeDocument/2006/relationships', 'id')
+      ?? sheetElement.getAttribute('r:id') ?? '';
+    const sheetDoc = parseXml(files, targets.get(relId) ?? `xl/worksheets/sheet${index + 1}.xml`);
+    if (!sheetDoc) return { name, rows: [] };
+
+    const rows: string[][] = [];
+    elements(sheetDoc, 'row').forEach((rowElement, rowPosition) => {
+      const rowNumber = Number(rowElement.getAttribute('r') ?? rowPosition + 1) - 1;
+      const cells: string[] = [];
+      let nextColumn = 0;
+
+      elements(rowElement, 'c').forEach(cell => {
+        const ref = cell.getAttribute('r');
+        const colIndex = ref ? columnIndexFromRef(ref) : nextColumn;
+        nextColumn = colIndex + 1;
+
+        const type = cell.getAttribute('t') ?? 'n';
+        const raw = elements(cell, 'v')[0]?.textContent ?? '';
+        let value = raw;
+
+        if (type === 's') {
+          value = sharedStrings[Number(raw)] ?? '';
+        } else if (type === 'inlineStr') {
+          value = textContent(cell);
+        } else if (type === 'b') {
+          value = raw === '1' ? 'TRUE' : 'FALSE';
+        } else if (type === 'n' && raw !== '' && dateStyles.has(Number(cell.getAttribute('s') ?? 0))) {
+          value = serialToDateString(Number(raw));
+        }
+
+        cells[colIndex] = value;
+      });
+
+      rows[rowNumber] = Array.from(cells, cell => cell ?? '');
+    });
+
+    return { name, rows: Array.from(rows, row => row ?? []).filter(row => row.some(cell => cell.trim() !== '')) };
+  });
+};